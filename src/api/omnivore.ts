@@ -2,72 +2,91 @@
 // Aug 2024 by Rino, eMotionGraphics Inc.
 
 import { Omnivore, Item, Highlight as OmnivoreHighlight } from '@omnivore-app/api';
+import fetch from 'node-fetch';
 import { Article, Highlight, OmnivoreClientConfig } from '../types';
 import { logger } from '../logger';
+import { buildSearchQuery, SearchQuery } from './query';
+import { HttpError, parseRetryAfter, withRetry } from './retry';
 
-export class OmnivoreClient {
-    private client: Omnivore;
+const PAGE_SIZE = 100;
 
-    constructor(config: OmnivoreClientConfig) {
-        this.client = new Omnivore(config);
+const UPDATE_HIGHLIGHT_MUTATION = `
+    mutation UpdateHighlight($input: UpdateHighlightInput!) {
+        updateHighlight(input: $input) {
+            __typename
+            ... on UpdateHighlightSuccess {
+                highlight { id annotation updatedAt }
+            }
+            ... on UpdateHighlightError {
+                errorCodes
+            }
+        }
     }
+`;
 
-    async getArticles(since: string, labels: string[] = []): Promise < Article[] > {
-        try {
-            const sinceDate = since ? new Date(since).toISOString().split('T')[0] : '';
-            await logger.debug(`Fetching articles since: ${sinceDate || 'the beginning'}`);
-
-            let query = `${sinceDate ? `saved:${sinceDate}..*` : ''} sort:saved-asc`;
-            if (labels.length > 0) {
-                const labelQuery = labels.map(label => `label:"${label}"`).join(' OR ');
-                query += ` (${labelQuery})`;
+const SET_LABELS_MUTATION = `
+    mutation SetLabels($input: SetLabelsInput!) {
+        setLabels(input: $input) {
+            __typename
+            ... on SetLabelsSuccess {
+                labels { id name }
+            }
+            ... on SetLabelsError {
+                errorCodes
             }
-            await logger.debug(`Using query: ${query}`);
+        }
+    }
+`;
 
-            let allArticles: Article[] = [];
-            let hasNextPage = true;
-            let after: string | null = null;
+// Where the cursor of a search is kept between syncs, so that a search that stopped part way continues
+// from there. kind is "articles" or "highlights".
+export interface CursorStore {
+    getCursor(kind: string, query: string): string | null;
+    setCursor(kind: string, query: string, after: string | null): void;
+}
 
-            while (hasNextPage) {
-                const response = await this.client.items.search({
-                    after: after ? parseInt(after) : undefined,
-                    first: 100,
-                    query: query,
-                    includeContent: true
-                });
+export class OmnivoreClient {
+    private client: Omnivore;
+    private config: OmnivoreClientConfig;
 
-                if (!response.edges || response.edges.length === 0) {
-                    break;
-                }
+    constructor(config: OmnivoreClientConfig) {
+        this.client = new Omnivore(config);
+        this.config = config;
+    }
 
-                allArticles = allArticles.concat(response.edges.map(edge => {
-                    const item = edge.node as Item;
-                    return {
-                        ...item,
-                        hash: (item as any).hash,
-                        createdAt: (item as any).createdAt || item.savedAt,
-                        readingProgressAnchorIndex: (item as any).readingProgressAnchorIndex,
-                        folder: (item as any).folder
-                    } as Article;
-                }));
+    // Run the cheapest possible query to check the base URL and API key
+    async testConnection(): Promise<void> {
+        await this.client.items.search({
+            first: 1,
+            query: 'sort:saved-desc',
+            includeContent: false
+        });
+    }
 
-                hasNextPage = response.pageInfo.hasNextPage;
-                after = response.pageInfo.endCursor;
+    // Articles saved or updated since the given date, one page at a time, without their content (see getItemContents)
+    async *getArticles(since: string, labels: string[] = [], userQuery = '', cursors?: CursorStore): AsyncGenerator<Article[]> {
+        const sinceDate = since ? new Date(since).toISOString().split('T')[0] : '';
+        await logger.debug(`Fetching articles saved or updated since: ${sinceDate || 'the beginning'}`);
 
-                await logger.debug(`Fetched ${allArticles.length} articles so far`);
-            }
+        const query = await logQuery(buildArticleQuery(since, labels, userQuery));
 
-            await logger.debug(`Total articles fetched: ${allArticles.length}`);
-            return allArticles;
+        try {
+            yield* this.searchPages('articles', query, false, item => [{
+                ...item,
+                hash: (item as any).hash,
+                createdAt: (item as any).createdAt || item.savedAt,
+                readingProgressAnchorIndex: (item as any).readingProgressAnchorIndex,
+                folder: (item as any).folder
+            } as Article], cursors);
         } catch (error) {
             await logger.error(`Error fetching articles from Omnivore: ${error.message}`);
             throw error;
         }
     }
 
-    async getHighlights(since: string, syncPeriod: number, labels: string[] = []): Promise<Highlight[]> {
-        try {
-            const sinceDate = new Date(since);
+    // Highlights of the articles saved within the sync period or since the given date, one page of articles at a time
+    async *getHighlights(since: string, syncPeriod: number, labels: string[] = [], userQuery = '', cursors?: CursorStore): AsyncGenerator<Highlight[]> {
+        const sinceDate = new Date(since);
         const oldestDate = new Date();
         oldestDate.setDate(oldestDate.getDate() - syncPeriod);
 
@@ -76,67 +95,259 @@ export class OmnivoreClient {
 
         await logger.debug(`Fetching highlights for articles saved since: ${formattedDate}`);
 
-        let query = `saved:${formattedDate}..* sort:saved-asc has:highlights`;
-        if (labels.length > 0) {
-            const labelQuery = labels.map(label => `label:"${label}"`).join(' OR ');
-            query += ` (${labelQuery})`;
+        const query = await logQuery(buildHighlightQuery(formattedDate, labels, userQuery));
+
+        try {
+            yield* this.searchPages('highlights', query, false, toHighlights, cursors);
+        } catch (error) {
+            await logger.error(`Error fetching highlights from Omnivore: ${error.message}`);
+            throw error;
+        }
+    }
+
+    // Content of the given items, by item ID
+    async getItemContents(itemIds: string[]): Promise<{ [itemId: string]: string }> {
+        const contents: { [itemId: string]: string } = {};
+        // Keep the queries short by asking for a limited number of items at a time
+        for (let i = 0; i < itemIds.length; i += 50) {
+            const batch = itemIds.slice(i, i + 50);
+            const response = await withRetry('Fetching article content', () => this.client.items.search({
+                first: batch.length,
+                query: `includes:${batch.join(',')}`,
+                includeContent: true
+            }));
+            for (const edge of response.edges || []) {
+                contents[edge.node.id] = edge.node.content || '';
+            }
+        }
+        await logger.debug(`Fetched the content of ${Object.keys(contents).length} of ${itemIds.length} articles`);
+        return contents;
+    }
+
+    // IDs of items archived since the given date
+    async getArchivedItemIds(since: string): Promise<string[]> {
+        try {
+            const sinceDate = since ? new Date(since).toISOString().split('T')[0] : '';
+            const query = `in:archive ${sinceDate ? `updated:${sinceDate}..* ` : ''}sort:updated-asc`;
+            await logger.debug(`Fetching archived items using query: ${query}`);
+
+            const ids: string[] = [];
+            for await (const page of this.searchPages('archived items', query, false, item => [item.id])) {
+                ids.push(...page);
+            }
+
+            await logger.debug(`Total archived items fetched: ${ids.length}`);
+            return ids;
+        } catch (error) {
+            await logger.error(`Error fetching archived items from Omnivore: ${error.message}`);
+            throw error;
+        }
+    }
+
+    // Yield the items of a search one page at a time. With cursors, the search continues where the last one with
+    // the same query stopped. The cursor is advanced when the next page is asked for, that is once the consumer
+    // is done with the page, and cleared when the last page was fetched.
+    private async *searchPages<T>(kind: string, query: string, includeContent: boolean, toItems: (item: Item) => T[], cursors?: CursorStore): AsyncGenerator<T[]> {
+        let hasNextPage = true;
+        let after: string | null = cursors ? cursors.getCursor(kind, query) : null;
+        let fetchedCount = 0;
+        if (after) {
+            await logger.info(`Continuing to fetch ${kind} after item ${after}, where the last sync stopped`);
+        }
+
+        while (hasNextPage) {
+            const response = await withRetry(`Fetching ${kind}`, () => this.client.items.search({
+                after: after ? parseInt(after) : undefined,
+                first: PAGE_SIZE,
+                query: query,
+                includeContent
+            }));
+
+            if (!response.edges || response.edges.length === 0) {
+                break;
+            }
+
+            hasNextPage = response.pageInfo.hasNextPage;
+            after = response.pageInfo.endCursor;
+            fetchedCount += response.edges.length;
+            await logger.debug(`Fetched ${fetchedCount} ${kind} so far`);
+
+            yield response.edges.flatMap(edge => toItems(edge.node as Item));
+            cursors?.setCursor(kind, query, hasNextPage ? after : null);
         }
-        await logger.debug(`Using query: ${query}`);
 
+        cursors?.setCursor(kind, query, null);
+        await logger.debug(`Total ${kind} fetched: ${fetchedCount}`);
+    }
+
+    // IDs of items deleted since the given date
+    async getDeletedItemIds(since: string): Promise<string[]> {
+        try {
+            const sinceDate = since ? new Date(since).toISOString() : new Date(0).toISOString();
+            await logger.debug(`Fetching deleted items since: ${sinceDate}`);
 
-            let allHighlights: Highlight[] = [];
+            const ids: string[] = [];
             let hasNextPage = true;
             let after: string | null = null;
 
             while (hasNextPage) {
-                const response = await this.client.items.search({
+                const response = await withRetry('Fetching deleted items', () => this.client.items.updates({
+                    since: sinceDate,
                     after: after ? parseInt(after) : undefined,
-                    first: 100,
-                    query: query,
-                    includeContent: true
-                });
+                    first: PAGE_SIZE
+                }));
 
                 if (!response.edges || response.edges.length === 0) {
                     break;
                 }
 
-                const highlights = response.edges.flatMap(edge => {
-                    if (edge.node.highlights) {
-                        return edge.node.highlights.map(highlight => {
-                            const omnivoreHighlight = highlight as OmnivoreHighlight;
-                            return {
-                                ...omnivoreHighlight,
-                                shortId: (omnivoreHighlight as any).shortId,
-                                createdAt: (omnivoreHighlight as any).createdAt || new Date().toISOString(),
-                                article: {
-                                    id: edge.node.id,
-                                    title: edge.node.title,
-                                    url: edge.node.url,
-                                    originalArticleUrl: edge.node.originalArticleUrl,
-                                    savedAt: edge.node.savedAt,
-                                    author: edge.node.author,
-                                    publishedAt: edge.node.publishedAt,
-                                    slug: edge.node.slug
-                                }
-                            } as Highlight;
-                        });
-                    }
-                    return [];
-                });
-
-                allHighlights = allHighlights.concat(highlights);
-
+                ids.push(...response.edges.filter(edge => edge.updateReason === 'DELETED').map(edge => edge.itemID));
                 hasNextPage = response.pageInfo.hasNextPage;
                 after = response.pageInfo.endCursor;
+            }
+
+            await logger.debug(`Total deleted items fetched: ${ids.length}`);
+            return ids;
+        } catch (error) {
+            await logger.error(`Error fetching deleted items from Omnivore: ${error.message}`);
+            throw error;
+        }
+    }
+
+    // Replace the labels of an item. Labels that don't exist yet are created by Omnivore.
+    async setLabels(itemId: string, labelNames: string[]): Promise<void> {
+        const data = await this.mutate(SET_LABELS_MUTATION, {
+            input: {
+                pageId: itemId,
+                labels: labelNames.map(name => ({ name }))
+            }
+        });
+        if (data.setLabels.__typename !== 'SetLabelsSuccess') {
+            throw new Error(`Failed to set labels: ${(data.setLabels.errorCodes || []).join(', ')}`);
+        }
+    }
+
+    // Current highlights of the given items, without content
+    async getItemHighlights(itemIds: string[]): Promise<Highlight[]> {
+        return Array.from((await this.getHighlightsByItem(itemIds)).values()).flat();
+    }
+
+    // Current highlights of the given items by item ID. Items that no longer exist are left out.
+    async getHighlightsByItem(itemIds: string[]): Promise<Map<string, Highlight[]>> {
+        try {
+            const highlightsByItem = new Map<string, Highlight[]>();
 
-                await logger.debug(`Fetched ${allHighlights.length} highlights so far`);
+            // Keep the queries short by asking for a limited number of items at a time
+            for (let i = 0; i < itemIds.length; i += 50) {
+                const query = `includes:${itemIds.slice(i, i + 50).join(',')}`;
+                const response = await withRetry('Fetching item highlights', () => this.client.items.search({
+                    first: 50,
+                    query: query,
+                    includeContent: false
+                }));
+                for (const edge of response.edges || []) {
+                    highlightsByItem.set(edge.node.id, toHighlights(edge.node));
+                }
             }
 
-            await logger.debug(`Total highlights fetched: ${allHighlights.length}`);
-            return allHighlights;
+            await logger.debug(`Fetched the highlights of ${highlightsByItem.size} of ${itemIds.length} items`);
+            return highlightsByItem;
         } catch (error) {
-            await logger.error(`Error fetching highlights from Omnivore: ${error.message}`);
+            await logger.error(`Error fetching item highlights from Omnivore: ${error.message}`);
             throw error;
         }
     }
+
+    // Number of items matching a query, without fetching them
+    async countItems(query: string): Promise<number> {
+        const response = await withRetry('Counting items', () => this.client.items.search({
+            first: 1,
+            query,
+            includeContent: false
+        }));
+        return response.pageInfo.totalCount ?? (response.edges || []).length;
+    }
+
+    // Set the annotation of a highlight. Returns the new updatedAt of the highlight.
+    async updateHighlight(highlightId: string, annotation: string): Promise<string> {
+        const data = await this.mutate(UPDATE_HIGHLIGHT_MUTATION, {
+            input: {
+                highlightId,
+                annotation
+            }
+        });
+        if (data.updateHighlight.__typename !== 'UpdateHighlightSuccess') {
+            throw new Error(`Failed to update highlight: ${(data.updateHighlight.errorCodes || []).join(', ')}`);
+        }
+        return data.updateHighlight.highlight.updatedAt;
+    }
+
+    // The @omnivore-app/api package has no mutations beyond saving and deleting items, so send them directly
+    private async mutate(query: string, variables: any): Promise<any> {
+        const response = await withRetry('Sending a change to Omnivore', async () => {
+            const response = await fetch(`${this.config.baseUrl}/api/graphql`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': this.config.apiKey,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ query, variables })
+            });
+            if (!response.ok) {
+                throw new HttpError(response.status, parseRetryAfter(response.headers.get('Retry-After')));
+            }
+            return response;
+        });
+
+        const result = await response.json();
+        if (result.errors && result.errors.length > 0) {
+            throw new Error(result.errors.map(error => error.message).join(', '));
+        }
+        return result.data;
+    }
+}
+
+// Query by update date so that changes to already synced articles are picked up as well
+export function buildArticleQuery(since: string, labels: string[], userQuery: string): SearchQuery {
+    const sinceDate = since ? new Date(since).toISOString().split('T')[0] : '';
+    return buildSearchQuery(`${sinceDate ? `updated:${sinceDate}..* ` : ''}sort:updated-asc`, labels, userQuery, ['sort', 'updated']);
+}
+
+export function buildHighlightQuery(sinceDate: string, labels: string[], userQuery: string): SearchQuery {
+    return buildSearchQuery(`saved:${sinceDate}..* sort:saved-asc has:highlights`, labels, userQuery, ['sort', 'saved']);
+}
+
+async function logQuery(searchQuery: SearchQuery): Promise<string> {
+    if (searchQuery.dropped.length > 0) {
+        await logger.warn(`Ignoring clauses of the custom query that the plugin sets itself: ${searchQuery.dropped.join(' ')}`);
+    }
+    await logger.debug(`Using query: ${searchQuery.query}`);
+    return searchQuery.query;
+}
+
+function toHighlights(item: Item): Highlight[] {
+    if (!item.highlights) {
+        return [];
+    }
+    return item.highlights.map(highlight => {
+        const omnivoreHighlight = highlight as OmnivoreHighlight;
+        return {
+            ...omnivoreHighlight,
+            shortId: (omnivoreHighlight as any).shortId,
+            createdAt: (omnivoreHighlight as any).createdAt || new Date().toISOString(),
+            article: {
+                id: item.id,
+                title: item.title,
+                url: item.url,
+                originalArticleUrl: item.originalArticleUrl,
+                savedAt: item.savedAt,
+                author: item.author,
+                publishedAt: item.publishedAt,
+                slug: item.slug,
+                siteName: item.siteName,
+                pageType: item.pageType,
+                labels: (item.labels || []).map(label => label.name)
+            }
+        } as Highlight;
+    });
 }
@@ -0,0 +1,142 @@
+// api/query.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+// Build Omnivore search queries from the plugin's own clauses, the label settings and a free-form user query.
+// The plugin's sort and date clauses decide which items a sync picks up, so the same keys are dropped from
+// the user query instead of letting the two fight.
+
+export interface SearchQuery {
+    query: string;
+    dropped: string[]; // clauses removed from the user query
+}
+
+// Labels starting with "-" are excluded, the others are OR-joined
+export function buildLabelClauses(labels: string[]): string {
+    const included = labels.filter(label => !label.startsWith('-'));
+    const excluded = labels.filter(label => label.startsWith('-')).map(label => label.slice(1).trim()).filter(label => label);
+
+    const clauses: string[] = [];
+    if (included.length > 0) {
+        clauses.push(`(${included.map(label => `label:${quoteValue(label)}`).join(' OR ')})`);
+    }
+    clauses.push(...excluded.map(label => `-label:${quoteValue(label)}`));
+    return clauses.join(' ');
+}
+
+// pluginClauses come first, then the label clauses, then the user query in parentheses so that an OR in it
+// can't reach the other clauses. reservedKeys are the keys of the plugin clauses (e.g. "sort", "updated").
+export function buildSearchQuery(pluginClauses: string, labels: string[], userQuery: string, reservedKeys: string[]): SearchQuery {
+    const { query, dropped } = sanitizeUserQuery(userQuery, reservedKeys);
+    const parts = [pluginClauses.trim(), buildLabelClauses(labels)];
+    if (query) {
+        parts.push(`(${query})`);
+    }
+    return { query: parts.filter(part => part).join(' '), dropped };
+}
+
+// Check a user query, throwing an Error if its quotes or parentheses are unbalanced
+export function validateUserQuery(userQuery: string) {
+    tokenize(userQuery);
+}
+
+function sanitizeUserQuery(userQuery: string, reservedKeys: string[]): SearchQuery {
+    const dropped: string[] = [];
+    const reserved = reservedKeys.map(key => key.toLowerCase());
+
+    const tokens = tokenize(userQuery || '').filter(token => {
+        const key = token.replace(/^-/, '').split(':')[0].toLowerCase();
+        if (token.includes(':') && reserved.includes(key)) {
+            dropped.push(token);
+            return false;
+        }
+        return true;
+    });
+
+    return { query: tidy(tokens), dropped };
+}
+
+// Split a query into clauses, keeping quoted values together and parentheses as tokens of their own
+function tokenize(query: string): string[] {
+    const tokens: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let depth = 0;
+
+    for (const char of query) {
+        if (char === '"') {
+            inQuotes = !inQuotes;
+            current += char;
+        } else if (inQuotes) {
+            current += char;
+        } else if (char === '(' || char === ')') {
+            if (current) {
+                tokens.push(current);
+                current = '';
+            }
+            depth += char === '(' ? 1 : -1;
+            if (depth < 0) {
+                throw new Error('The query has a ")" without a matching "(".');
+            }
+            tokens.push(char);
+        } else if (/\s/.test(char)) {
+            if (current) {
+                tokens.push(current);
+                current = '';
+            }
+        } else {
+            current += char;
+        }
+    }
+    if (inQuotes) {
+        throw new Error('The query has an unclosed quote.');
+    }
+    if (depth > 0) {
+        throw new Error('The query has a "(" without a matching ")".');
+    }
+    if (current) {
+        tokens.push(current);
+    }
+    return tokens;
+}
+
+// Remove what dropping clauses can leave behind: empty parentheses and dangling ORs and ANDs
+function tidy(tokens: string[]): string {
+    const isOperator = (token: string) => /^(OR|AND)$/i.test(token);
+    let result = tokens;
+    let changed = true;
+
+    while (changed) {
+        changed = false;
+        const next: string[] = [];
+        for (const token of result) {
+            const previous = next[next.length - 1];
+            if (token === ')' && previous === '(') {
+                next.pop();
+                changed = true;
+            } else if (token === ')' && previous !== undefined && isOperator(previous)) {
+                next.pop();
+                next.push(token);
+                changed = true;
+            } else if (isOperator(token) && (previous === undefined || previous === '(' || isOperator(previous))) {
+                changed = true;
+            } else {
+                next.push(token);
+            }
+        }
+        while (next.length > 0 && isOperator(next[next.length - 1])) {
+            next.pop();
+            changed = true;
+        }
+        result = next;
+    }
+
+    // No space after "(" or before ")"
+    return result.reduce((query, token, index) => {
+        const separator = index === 0 || token === ')' || result[index - 1] === '(' ? '' : ' ';
+        return query + separator + token;
+    }, '');
+}
+
+function quoteValue(value: string): string {
+    return `"${value.replace(/"/g, '\\"')}"`;
+}
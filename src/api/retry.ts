@@ -0,0 +1,80 @@
+// api/retry.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { setTimeout } from 'timers/promises';
+import { isOmnivoreError, OmnivoreErrorCode } from '@omnivore-app/api';
+import { logger } from '../logger';
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2 * 1000;
+const MAX_DELAY_MS = 2 * 60 * 1000;
+// A rate limit without a Retry-After header is waited out at least this long
+const RATE_LIMIT_DELAY_MS = 30 * 1000;
+// A server asking to wait longer than this fails the request instead of holding up the sync
+const MAX_RETRY_AFTER_MS = 10 * 60 * 1000;
+
+// HTTP error of a request the plugin sends itself, with the Retry-After header if the server sent one
+export class HttpError extends Error {
+    constructor(readonly status: number, readonly retryAfterMs: number | null) {
+        super(`HTTP error! status: ${status}`);
+        this.name = 'HttpError';
+    }
+}
+
+// Run an API request, retrying rate limits and transient errors with exponential backoff
+export async function withRetry<T>(description: string, request: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (error) {
+            const delay = getRetryDelay(error, attempt);
+            if (delay === null || attempt >= MAX_ATTEMPTS) {
+                throw error;
+            }
+            await logger.warn(`${description} failed: ${error.message}. Retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 1} of ${MAX_ATTEMPTS}).`);
+            await setTimeout(delay);
+        }
+    }
+}
+
+// Retry-After holds either a number of seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | null {
+    if (!value) {
+        return null;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Milliseconds to wait before the next attempt, or null if the error won't go away by retrying
+function getRetryDelay(error: any, attempt: number): number | null {
+    // Random jitter keeps several clients that failed at once from retrying at once
+    const backoff = Math.min(BASE_DELAY_MS * Math.pow(2, attempt - 1), MAX_DELAY_MS) + Math.floor(Math.random() * 1000);
+
+    if (error instanceof HttpError) {
+        if (error.status !== 429 && error.status !== 408 && error.status < 500) {
+            return null;
+        }
+        if (error.retryAfterMs !== null) {
+            return error.retryAfterMs <= MAX_RETRY_AFTER_MS ? error.retryAfterMs : null;
+        }
+        return error.status === 429 ? Math.max(backoff, RATE_LIMIT_DELAY_MS) : backoff;
+    }
+
+    // The Omnivore API package reports failed HTTP requests by their status text only, without the
+    // response headers, so Retry-After can't be honoured for its requests
+    if (isOmnivoreError(error) && error.code === OmnivoreErrorCode.NetworkError) {
+        return /too many requests|429/i.test(error.message) ? Math.max(backoff, RATE_LIMIT_DELAY_MS) : backoff;
+    }
+
+    // Connection errors of node-fetch, such as a reset connection or a timeout
+    if (error && error.name === 'FetchError') {
+        return backoff;
+    }
+
+    return null;
+}
@@ -2,29 +2,39 @@
 // Aug 2024 by Rino, eMotionGraphics Inc.
 
 import joplin from 'api';
-import { setTimeout } from 'timers/promises';
 import { MenuItemLocation, SettingItemType } from 'api/types';
-import { OmnivoreClient } from './api/omnivore';
-import { syncArticles, cleanupOldArticles } from './sync/article';
+import { OmnivoreClient, buildArticleQuery, buildHighlightQuery } from './api/omnivore';
+import { validateUserQuery } from './api/query';
+import { syncArticles } from './sync/article';
 import { syncHighlights, cleanupHighlightNotes } from './sync/highlight';
-import TurndownService from 'turndown';
+import { importOmnivoreExport } from './sync/import';
+import { syncState } from './sync/state';
+import { SyncCancelledError, syncStatus } from './sync/status';
+import { buildPreviewReport, syncPreview } from './sync/preview';
+import { syncScheduler } from './sync/scheduler';
+import { getOrCreateNotebook } from './sync/folders';
+import { editRoutingRules } from './views/routingRules';
+import { toggleStatusPanel } from './views/statusPanel';
+import { reconcileItems, ARCHIVED_TAG } from './sync/reconcile';
+import { pushAnnotations } from './sync/annotations';
+import { remarkArticleNotes } from './sync/inline';
+import { DEFAULT_ARTICLE_TITLE_TEMPLATE, DEFAULT_HIGHLIGHT_TITLE_TEMPLATE } from './sync/titles';
+import { TemplateError, TemplateKind, getCustomTemplate, getCustomTemplateNoteId } from './sync/templates';
+import { createTurndownService } from './sync/conversion';
+import { downloadNoteImages } from './sync/attachments';
 import { logger, LogLevel } from './logger';
-import { SyncType } from './types';
+import { SyncType, ArticleUpdatePolicy, ReconcileAction, DeletedHighlightAction, HighlightGrouping, ImageStrategy } from './types';
 
-const turndownService = new TurndownService({
-    headingStyle: 'atx',
-    codeBlockStyle: 'fenced'
-});
+const DEFAULT_API_BASE_URL = 'https://api-prod.omnivore.app';
+const DEFAULT_WEB_URL = 'https://omnivore.app';
+const ARCHIVE_NOTEBOOK_NAME = 'Archive';
+const BUSY_MESSAGE = 'An Omnivore sync, preview or import is already running. Try again when it has finished.';
+// Joplin saves a note while it is being typed, so a template note is only validated once the edits pause
+const TEMPLATE_NOTE_VALIDATION_DELAY_MS = 3000;
 
-// Custom rule to handle headings
-turndownService.addRule('heading', {
-    filter: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
-    replacement: function(content, node, options) {
-        const hLevel = Number(node.nodeName.charAt(1));
-        const cleanContent = content.replace(/\[]\([^)]+\)/g, '');
-        return '\n\n' + '#'.repeat(hLevel) + ' ' + cleanContent.trim() + '\n\n';
-    }
-});
+const templateNoteTimers: { [kind: string]: ReturnType<typeof setTimeout> } = {};
+
+const turndownService = createTurndownService();
 
 joplin.plugins.register({
     onStart: async function() {
@@ -41,6 +51,22 @@ joplin.plugins.register({
                 public: true,
                 label: 'Omnivore API Key'
             },
+            'omnivoreApiBaseUrl': {
+                value: DEFAULT_API_BASE_URL,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Omnivore API Base URL',
+                description: 'Base URL of the Omnivore API server. Change this if you run a self-hosted Omnivore (e.g., "https://omnivore.example.com").'
+            },
+            'omnivoreWebUrl': {
+                value: DEFAULT_WEB_URL,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Omnivore Web App URL',
+                description: 'Base URL of the Omnivore web app, used for links back to articles in highlight notes.'
+            },
             'syncType': {
                 value: SyncType.All,
                 type: SettingItemType.String,
@@ -63,6 +89,23 @@ joplin.plugins.register({
                 label: 'Sync Interval (minutes)',
                 description: '0 for manual sync only'
             },
+            'syncJitter': {
+                value: 0,
+                type: SettingItemType.Int,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Sync Interval Jitter (minutes)',
+                description: 'Delay each automatic sync by a random time of up to this many minutes, so that several devices don\'t sync at the same moment. 0 for no delay.',
+                minimum: 0
+            },
+            'syncOnStartup': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Sync on Startup',
+                description: 'Sync shortly after Joplin starts, then at the sync interval'
+            },
             'targetNotebook': {
                 value: 'Omnivore',
                 type: SettingItemType.String,
@@ -93,7 +136,15 @@ joplin.plugins.register({
                 section: 'omnivoreSync',
                 public: true,
                 label: 'Article Labels',
-                description: 'Comma-separated list of labels for articles to sync (leave empty to sync all)'
+                description: 'Comma-separated list of labels for articles to sync (leave empty to sync all). Prefix a label with "-" to exclude it, e.g. "work, -newsletter".'
+            },
+            'articleQuery': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Article Search Query',
+                description: 'Additional Omnivore search query for articles, e.g. "in:library -label:newsletter type:article". Sort and update date clauses are set by the plugin and ignored here.'
             },
             'highlightLabels': {
                 value: '',
@@ -101,21 +152,193 @@ joplin.plugins.register({
                 section: 'omnivoreSync',
                 public: true,
                 label: 'Highlight Labels',
-                description: 'Comma-separated list of labels for highlights to sync (leave empty to sync all)'
+                description: 'Comma-separated list of labels for highlights to sync (leave empty to sync all). Prefix a label with "-" to exclude it.'
+            },
+            'highlightQuery': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Highlight Search Query',
+                description: 'Additional Omnivore search query for the articles whose highlights are synced, e.g. "is:read -label:private". Sort and save date clauses are set by the plugin and ignored here.'
+            },
+            'articleUpdatePolicy': {
+                value: ArticleUpdatePolicy.LocalWins,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Article Update Policy',
+                description: 'What to do when an already synced article changes in Omnivore but its note was also edited in Joplin',
+                isEnum: true,
+                options: {
+                    [ArticleUpdatePolicy.LocalWins]: 'Keep local edits (skip the update)',
+                    [ArticleUpdatePolicy.OmnivoreWins]: 'Overwrite with the Omnivore version'
+                }
+            },
+            'readingProgressThreshold': {
+                value: 0,
+                type: SettingItemType.Int,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Reading Progress Threshold (%)',
+                description: 'Only create notes for articles read at least this far in Omnivore. 0 to sync all articles.',
+                minimum: 0,
+                maximum: 100,
+                step: 5
+            },
+            'unreadAsTodo': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Create Unread Articles as To-dos',
+                description: 'Articles not fully read are created as to-dos, which are marked complete once Omnivore reports them 100% read'
+            },
+            'pushAnnotations': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Push Annotations to Omnivore',
+                description: 'Send annotations edited in Joplin, under the "Note" section of a highlight, back to Omnivore. Edits are not pushed if the highlight was also changed in Omnivore.'
+            },
+            'twoWayTagSync': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Two-Way Tag Sync',
+                description: 'Push tags added to or removed from synced article notes back to Omnivore as labels. If the labels changed on both sides, the side modified last wins.'
+            },
+            'reconcileAction': {
+                value: ReconcileAction.None,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Archived and Deleted Articles',
+                description: 'What to do with the notes of synced articles that are archived or deleted in Omnivore',
+                isEnum: true,
+                options: {
+                    [ReconcileAction.None]: 'Do nothing',
+                    [ReconcileAction.Tag]: `Add the "${ARCHIVED_TAG}" tag`,
+                    [ReconcileAction.ArchiveNotebook]: `Move to the "${ARCHIVE_NOTEBOOK_NAME}" sub-notebook`,
+                    [ReconcileAction.Trash]: 'Move to the trash'
+                }
+            },
+            'articleTemplateChoice': {
+                value: 'default',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Article Template',
+                description: 'Choose the template for article notes',
+                isEnum: true,
+                options: {
+                    default: 'YAML front matter, header and content',
+                    contentOnly: 'Content only',
+                    custom: 'Custom',
+                }
+            },
+            'customArticleTemplate': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Custom Article Template',
+                description: 'Mustache template used when the article template is "Custom". Use \\n for line breaks. See the README for the available variables.'
+            },
+            'customArticleTemplateNote': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Custom Article Template Note',
+                description: 'ID or exact title of a note holding the custom article template. If the note has a fenced code block, its content is used as the template. Takes precedence over the Custom Article Template setting.'
+            },
+            'articleIncludeHighlights': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Include Highlights in Article Notes',
+                description: 'Make the highlights of an article available to the article template (the default template lists them below the header)'
+            },
+            'markHighlightsInArticles': {
+                value: false,
+                type: SettingItemType.Bool,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Mark Highlights in Article Notes',
+                description: 'Mark highlighted text in article notes with ==highlight== syntax, with annotations as footnotes. Highlights added later are marked on the next sync.'
+            },
+            'imageStrategy': {
+                value: ImageStrategy.Download,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Image Handling',
+                description: 'What to do with the images in articles. Images of synced notes can be downloaded later with Tools > Download Images of Omnivore Note.',
+                isEnum: true,
+                options: {
+                    [ImageStrategy.Download]: 'Download as Joplin resources',
+                    [ImageStrategy.KeepRemote]: 'Keep linking to the original images',
+                    [ImageStrategy.Placeholder]: 'Replace with a link to the image',
+                    [ImageStrategy.Skip]: 'Leave images out'
+                }
+            },
+            'maxImageSize': {
+                value: 10,
+                type: SettingItemType.Int,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Maximum Image Size (MB)',
+                description: 'Images in articles larger than this are not downloaded and keep linking to the original. 0 for no limit.',
+                minimum: 0,
+                maximum: 100
             },
             'highlightGrouping': {
-                value: 'byDate',
+                value: HighlightGrouping.ByDate,
                 type: SettingItemType.String,
                 section: 'omnivoreSync',
                 public: true,
                 label: 'Highlight Grouping',
-                description: 'Choose how to group highlights',
+                description: 'Choose how to group highlights. With By Label, a highlight is added to the note of each label of its article.',
                 isEnum: true,
                 options: {
-                    'byDate': 'By Date',
-                    'byArticle': 'By Article'
+                    [HighlightGrouping.ByDate]: 'By Date',
+                    [HighlightGrouping.ByWeek]: 'By Week (ISO week)',
+                    [HighlightGrouping.ByMonth]: 'By Month',
+                    [HighlightGrouping.ByLabel]: 'By Label',
+                    [HighlightGrouping.BySite]: 'By Site',
+                    [HighlightGrouping.ByAuthor]: 'By Author',
+                    [HighlightGrouping.ByArticle]: 'By Article',
+                    [HighlightGrouping.DailyNote]: 'Into Daily Notes'
                 }
             },
+            'dailyNoteTitlePattern': {
+                value: 'yyyy-MM-dd',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Daily Note Title Pattern',
+                description: 'Title of the daily notes when the highlight grouping is "Into Daily Notes", as a Luxon date format. Put literal text in single quotes, e.g. "\'Journal\' yyyy-MM-dd".'
+            },
+            'dailyNoteNotebook': {
+                value: 'Journal',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Daily Note Notebook',
+                description: 'Notebook of the daily notes. Use "/" for sub-notebooks, e.g. "Journal/2026". Created if it does not exist.'
+            },
+            'dailyNoteHeading': {
+                value: '## Omnivore Highlights',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Daily Note Heading',
+                description: 'Heading under which the highlights are added to a daily note. Added at the end of the note if it is not there yet.'
+            },
             'highlightTemplateChoice': {
                 value: 'default',
                 type: SettingItemType.String,
@@ -128,6 +351,36 @@ joplin.plugins.register({
                     default: 'Default',
                     titleQuote: 'Title, Highlight and Note',
                     quoteOnly: 'Highlight and Note',
+                    custom: 'Custom',
+                }
+            },
+            'customHighlightTemplate': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Custom Highlight Template',
+                description: 'Mustache template used when the highlight template is "Custom". Use \\n for line breaks. See the README for the available variables.'
+            },
+            'customHighlightTemplateNote': {
+                value: '',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Custom Highlight Template Note',
+                description: 'ID or exact title of a note holding the custom highlight template. If the note has a fenced code block, its content is used as the template. Takes precedence over the Custom Highlight Template setting.'
+            },
+            'deletedHighlightAction': {
+                value: DeletedHighlightAction.StrikeThrough,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Deleted Highlights',
+                description: 'What to do with highlights already written to notes when they are deleted in Omnivore',
+                isEnum: true,
+                options: {
+                    [DeletedHighlightAction.StrikeThrough]: 'Strike through',
+                    [DeletedHighlightAction.Remove]: 'Remove from the note'
                 }
             },
             'userTimezone': {
@@ -154,19 +407,53 @@ joplin.plugins.register({
                 label: 'Highlight Note Title Prefix',
                 description: 'Prefix for highlight note titles. Include any spaces or symbols you want to appear before the date or article title.'
             },
+            'highlightTitleTemplate': {
+                value: DEFAULT_HIGHLIGHT_TITLE_TEMPLATE,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Highlight Note Title Template',
+                description: 'Mustache template for highlight note titles, e.g. "{{{isoWeek}}} Reading". Leave empty for the default. See the README for the available variables.'
+            },
+            'articleTitleTemplate': {
+                value: DEFAULT_ARTICLE_TITLE_TEMPLATE,
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: true,
+                label: 'Article Note Title Template',
+                description: 'Mustache template for article note titles, e.g. "{{{date}}} {{{title}}}". Leave empty for the default. See the README for the available variables.'
+            },
+            'routingRules': {
+                value: '[]',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: false,
+                label: 'Routing Rules',
+                description: 'Ordered routing rules as JSON. Edit them with Tools > Edit Omnivore Routing Rules.'
+            },
             'lastSyncDate': {
                 value: '',
                 type: SettingItemType.String,
                 section: 'omnivoreSync',
                 public: false,
-                label: 'Last Sync Date'
+                label: 'Last Sync Date',
+                description: 'Internal use: Migrated to the sync state file'
             },
             'syncedArticles': {
                 value: '[]',
                 type: SettingItemType.String,
                 section: 'omnivoreSync',
                 public: false,
-                label: 'Synced Articles'
+                label: 'Synced Articles',
+                description: 'Internal use: Migrated to the sync state file'
+            },
+            'articleNotes': {
+                value: '{}',
+                type: SettingItemType.String,
+                section: 'omnivoreSync',
+                public: false,
+                label: 'Article Notes',
+                description: 'Internal use: Migrated to the sync state file'
             },
             'syncedHighlights': {
                 value: '{}',
@@ -174,7 +461,7 @@ joplin.plugins.register({
                 section: 'omnivoreSync',
                 public: false,
                 label: 'Synced Highlights',
-                description: 'Internal use: Stores information about synced highlights'
+                description: 'Internal use: Migrated to the sync state file'
             },
             'logLevel': {
                 value: LogLevel.ErrorsAndWarnings,
@@ -196,12 +483,10 @@ joplin.plugins.register({
             name: 'resetOmnivoreSyncData',
             label: 'Reset Omnivore Sync Data',
             execute: async () => {
-                const result = await joplin.views.dialogs.showMessageBox('Are you sure you want to reset the Omnivore Sync internal data? This will clear the last sync date and all synced article/highlight IDs (Notes are NOT deleted). The next sync will fetch all articles and highlights again.\n\nPress OK to confirm, or Cancel to abort.');
+                const result = await joplin.views.dialogs.showMessageBox('Are you sure you want to reset the Omnivore Sync internal data? This will clear the last sync date and forget the articles and highlights whose notes were deleted (Notes are NOT deleted). The next sync will fetch all articles and highlights again, and write the forgotten ones again.\n\nPress OK to confirm, or Cancel to abort.');
 
                 if (result === 0) { // User clicked 'OK'
-                    await joplin.settings.setValue('lastSyncDate', '');
-                    await joplin.settings.setValue('syncedArticles', '[]');
-                    await joplin.settings.setValue('syncedHighlights', '{}');
+                    await syncState.reset();
                     await logger.debug('Omnivore sync data has been reset.');
                     await joplin.views.dialogs.showMessageBox('Omnivore sync data has been reset. The next sync will fetch all articles and highlights.');
                 } else {
@@ -214,47 +499,325 @@ joplin.plugins.register({
             name: 'syncOmnivoreArticles',
             label: 'Sync Omnivore Articles',
             execute: async () => {
-                const apiKey = await joplin.settings.value('omnivoreApiKey');
-                if (!apiKey) {
+                const client = await createClient();
+                if (!client) {
                     await logger.error('Omnivore API key not set. Please set your API key in the plugin settings.');
                     return;
                 }
-                const client = new OmnivoreClient({ apiKey, baseUrl: 'https://api-prod.omnivore.app' });
-                await performSync(client);
+                if (!(await syncScheduler.runExclusive(() => performSync(client)))) {
+                    await joplin.views.dialogs.showMessageBox(BUSY_MESSAGE);
+                }
+            },
+        });
+
+        await joplin.commands.register({
+            name: 'cancelOmnivoreSync',
+            label: 'Cancel Omnivore Sync',
+            execute: async () => {
+                if (!syncStatus.isRunning) {
+                    await joplin.views.dialogs.showMessageBox('No Omnivore sync is running.');
+                    return;
+                }
+                // The sync stops after the item it is writing
+                syncStatus.requestCancel();
+                await logger.info('Cancel of the Omnivore sync requested');
+            },
+        });
+
+        await joplin.commands.register({
+            name: 'testOmnivoreConnection',
+            label: 'Test Omnivore Connection',
+            execute: async () => {
+                const baseUrl = await joplin.settings.value('omnivoreApiBaseUrl');
+                if (!isValidHttpUrl(baseUrl)) {
+                    await joplin.views.dialogs.showMessageBox(`The Omnivore API Base URL is not a valid http(s) URL:\n\n${baseUrl}`);
+                    return;
+                }
+
+                const client = await createClient();
+                if (!client) {
+                    await joplin.views.dialogs.showMessageBox('Omnivore API key not set. Please set your API key in the plugin settings.');
+                    return;
+                }
+
+                try {
+                    await client.testConnection();
+                    await joplin.views.dialogs.showMessageBox(`Successfully connected to Omnivore at ${baseUrl}.`);
+                } catch (error) {
+                    await logger.error(`Connection test failed: ${error.message}`);
+                    await joplin.views.dialogs.showMessageBox(`Could not connect to Omnivore at ${baseUrl}.\n\n${error.message}`);
+                }
+            }
+        });
+
+        await joplin.commands.register({
+            name: 'previewOmnivoreQuery',
+            label: 'Preview Omnivore Query Matches',
+            execute: async () => {
+                const client = await createClient();
+                if (!client) {
+                    await joplin.views.dialogs.showMessageBox('Omnivore API key not set. Please set your API key in the plugin settings.');
+                    return;
+                }
+
+                try {
+                    await joplin.views.dialogs.showMessageBox(await previewQueryMatches(client));
+                } catch (error) {
+                    await logger.error(`Query preview failed: ${error.message}`);
+                    await joplin.views.dialogs.showMessageBox(`Could not preview the Omnivore queries.\n\n${error.message}`);
+                }
+            }
+        });
+
+        await joplin.commands.register({
+            name: 'previewOmnivoreSync',
+            label: 'Preview Omnivore Sync',
+            execute: async () => {
+                const client = await createClient();
+                if (!client) {
+                    await joplin.views.dialogs.showMessageBox('Omnivore API key not set. Please set your API key in the plugin settings.');
+                    return;
+                }
+
+                try {
+                    await joplin.views.dialogs.showMessageBox(await previewSync(client));
+                } catch (error) {
+                    await logger.error(`Sync preview failed: ${error.message}`);
+                    await joplin.views.dialogs.showMessageBox(`Could not preview the Omnivore sync.\n\n${error.message}`);
+                }
+            }
+        });
+
+        await joplin.commands.register({
+            name: 'importOmnivoreExport',
+            label: 'Import Omnivore Export',
+            execute: async (exportPath?: string) => {
+                if (!exportPath) {
+                    const selected = await joplin.views.dialogs.showOpenDialog({
+                        title: 'Select an Omnivore export ZIP, or any metadata_*.json file in an unpacked export',
+                        properties: ['openFile'],
+                        filters: [{ name: 'Omnivore export', extensions: ['zip', 'json'] }]
+                    });
+                    if (!selected || selected.length === 0) {
+                        await logger.debug('Import cancelled by user.');
+                        return;
+                    }
+                    exportPath = selected[0];
+                }
+
+                // A metadata file stands for the unpacked export directory it is in
+                if (/\.json$/i.test(exportPath)) {
+                    exportPath = exportPath.replace(/[\\/][^\\/]*$/, '');
+                }
+
+                try {
+                    let message = BUSY_MESSAGE;
+                    await syncScheduler.runExclusive(async () => {
+                        const { articleTargetFolder, highlightTargetFolder } = await getTargetFolders();
+                        const result = await importOmnivoreExport(exportPath, turndownService, {
+                            syncType: await joplin.settings.value('syncType') as SyncType,
+                            articleLabels: await getLabelsSetting('articleLabels'),
+                            highlightLabels: await getLabelsSetting('highlightLabels'),
+                            articleFolderId: articleTargetFolder.id,
+                            highlightFolderId: highlightTargetFolder.id
+                        });
+                        message = `Omnivore export imported: ${result.articles} new articles and ${result.highlights} new highlights.`;
+                    });
+                    await joplin.views.dialogs.showMessageBox(message);
+                } catch (error) {
+                    await logger.error(`Error during import: ${error.message}`);
+                    await joplin.views.dialogs.showMessageBox(`Could not import the Omnivore export.\n\n${error.message}`);
+                }
+            }
+        });
+
+        await joplin.commands.register({
+            name: 'downloadOmnivoreNoteImages',
+            label: 'Download Images of Omnivore Note',
+            execute: async () => {
+                const note = await joplin.workspace.selectedNote();
+                if (!note) {
+                    await joplin.views.dialogs.showMessageBox('Select the note whose images should be downloaded.');
+                    return;
+                }
+
+                try {
+                    let message = BUSY_MESSAGE;
+                    // Downloads are recorded in the sync state, so they wait for a running sync
+                    await syncScheduler.runExclusive(async () => {
+                        const result = await downloadNoteImages(note.id);
+                        message = result.downloaded + result.remaining === 0
+                            ? 'The note has no remote images.'
+                            : `Downloaded ${result.downloaded} images as resources.${result.remaining > 0 ? ` ${result.remaining} images could not be downloaded and still link to the original, see the log for details.` : ''}`;
+                    });
+                    await joplin.views.dialogs.showMessageBox(message);
+                } catch (error) {
+                    await logger.error(`Error downloading note images: ${error.message}`);
+                    await joplin.views.dialogs.showMessageBox(`Could not download the images of the note.\n\n${error.message}`);
+                }
+            }
+        });
+
+        await joplin.commands.register({
+            name: 'toggleOmnivoreSyncStatus',
+            label: 'Toggle Omnivore Sync Status',
+            execute: async () => {
+                await toggleStatusPanel();
+            },
+        });
+
+        await joplin.commands.register({
+            name: 'editOmnivoreRoutingRules',
+            label: 'Edit Omnivore Routing Rules',
+            execute: async () => {
+                await editRoutingRules();
             },
         });
 
         await joplin.views.menuItems.create('syncOmnivoreArticlesMenuItem', 'syncOmnivoreArticles', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('cancelOmnivoreSyncMenuItem', 'cancelOmnivoreSync', MenuItemLocation.Tools);
         await joplin.views.menuItems.create('resetOmnivoreSyncDataMenuItem', 'resetOmnivoreSyncData', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('testOmnivoreConnectionMenuItem', 'testOmnivoreConnection', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('previewOmnivoreQueryMenuItem', 'previewOmnivoreQuery', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('previewOmnivoreSyncMenuItem', 'previewOmnivoreSync', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('importOmnivoreExportMenuItem', 'importOmnivoreExport', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('editOmnivoreRoutingRulesMenuItem', 'editOmnivoreRoutingRules', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('downloadOmnivoreNoteImagesMenuItem', 'downloadOmnivoreNoteImages', MenuItemLocation.Tools);
+        await joplin.views.menuItems.create('toggleOmnivoreSyncStatusMenuItem', 'toggleOmnivoreSyncStatus', MenuItemLocation.Tools);
 
-        const setupScheduledSync = async () => {
-            const interval = await joplin.settings.value('syncInterval');
-            if (interval > 0) {
-                setInterval(async () => {
-                    const apiKey = await joplin.settings.value('omnivoreApiKey');
-                    if (apiKey) {
-                        const client = new OmnivoreClient({ apiKey, baseUrl: 'https://api-prod.omnivore.app' });
-                        await performSync(client);
-                    }
-                }, interval * 60 * 1000);
+        await syncState.load();
+        await syncStatus.load();
+
+        await syncScheduler.start(async () => {
+            const client = await createClient();
+            if (client) {
+                await performSync(client);
+            }
+        });
+        await joplin.settings.onChange(async (event) => {
+            if (event.keys.some(key => ['syncInterval', 'syncJitter'].includes(key))) {
+                await syncScheduler.reschedule();
             }
-        };
+            if (event.keys.some(key => ['highlightTemplateChoice', 'customHighlightTemplate', 'customHighlightTemplateNote'].includes(key))) {
+                await validateCustomTemplate('highlight');
+            }
+            if (event.keys.some(key => ['articleTemplateChoice', 'customArticleTemplate', 'customArticleTemplateNote'].includes(key))) {
+                await validateCustomTemplate('article');
+            }
+            for (const key of ['articleQuery', 'highlightQuery'].filter(key => event.keys.includes(key))) {
+                try {
+                    validateUserQuery(await joplin.settings.value(key));
+                } catch (error) {
+                    await joplin.views.dialogs.showMessageBox(`The ${key === 'articleQuery' ? 'Article' : 'Highlight'} Search Query is invalid: ${error.message}`);
+                }
+            }
+            if (event.keys.includes('articleTitleTemplate')) {
+                await validateCustomTemplate('articleTitle');
+            }
+            if (event.keys.includes('highlightTitleTemplate')) {
+                await validateCustomTemplate('highlightTitle');
+            }
+        });
 
-        await setupScheduledSync();
-        await joplin.settings.onChange(async () => {
-            await setupScheduledSync();
+        // Validate the template notes when they are edited. Problems are logged, since a dialog would
+        // interrupt the typing.
+        await joplin.workspace.onNoteChange(async (event) => {
+            if (event.id === await getCustomTemplateNoteId('highlight')) {
+                scheduleTemplateNoteValidation('highlight');
+            }
+            if (event.id === await getCustomTemplateNoteId('article')) {
+                scheduleTemplateNoteValidation('article');
+            }
         });
 
         await logger.debug('Omnivore Sync plugin started');
     }
 });
 
+// Build a client from the current settings. Returns null if the API key is not set.
+async function createClient(): Promise<OmnivoreClient | null> {
+    const apiKey = await joplin.settings.value('omnivoreApiKey');
+    if (!apiKey) {
+        return null;
+    }
+    const baseUrl = (await joplin.settings.value('omnivoreApiBaseUrl') || DEFAULT_API_BASE_URL).trim().replace(/\/+$/, '');
+    return new OmnivoreClient({ apiKey, baseUrl });
+}
+
+function isValidHttpUrl(value: string): boolean {
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch (error) {
+        return false;
+    }
+}
+
+// Only call through syncScheduler.runExclusive, so that syncs never overlap
 async function performSync(client: OmnivoreClient) {
     await logger.info('Starting Omnivore sync');
-    let lastSyncDate = await joplin.settings.value('lastSyncDate');
+    syncStatus.start();
+
+    try {
+        const newLastSyncDate = await runSyncSteps(client);
+
+        syncState.lastSyncDate = newLastSyncDate;
+        await syncState.save();
+        await syncStatus.finish('completed');
+        await logger.info(`Sync completed. New last sync date: ${newLastSyncDate}`);
+    } catch (error) {
+        // Keep the records of the notes written before the sync stopped, so they are not written again
+        await syncState.save();
+        if (error instanceof SyncCancelledError) {
+            await syncStatus.finish('cancelled');
+            await logger.info('Sync cancelled');
+            return;
+        }
+        await syncStatus.finish('failed', error.message);
+        await logger.error(`Error during sync: ${error.message}`);
+        if (error instanceof TemplateError) {
+            await joplin.views.dialogs.showMessageBox(`Omnivore sync stopped: ${error.message}`);
+        }
+    }
+}
+
+// Run a sync as a dry run and report the notes it would change. The sync state changed in memory
+// is thrown away by loading it again from its file. Like a sync, the preview holds the sync lock, so that no
+// sync runs while the sync code only records changes, and shows in the status panel, where it can be cancelled.
+async function previewSync(client: OmnivoreClient): Promise<string> {
+    let report = BUSY_MESSAGE;
+    await syncScheduler.runExclusive(async () => {
+        await logger.info('Starting Omnivore sync preview');
+        syncStatus.start(true);
+        syncPreview.begin();
+        try {
+            await runSyncSteps(client);
+            const entries = syncPreview.end();
+            await syncStatus.finish('completed');
+            await logger.info(`Sync preview: ${entries.length} changes`);
+            report = `Omnivore sync preview. Nothing was changed.\n\n${buildPreviewReport(entries)}`;
+        } catch (error) {
+            syncPreview.end();
+            if (error instanceof SyncCancelledError) {
+                await syncStatus.finish('cancelled');
+                await logger.info('Sync preview cancelled');
+                report = 'The Omnivore sync preview was cancelled. Nothing was changed.';
+                return;
+            }
+            await syncStatus.finish('failed', error.message);
+            throw error;
+        } finally {
+            await syncState.load();
+        }
+    });
+    return report;
+}
+
+// The steps shared by the sync and its preview. Returns the new last sync date.
+async function runSyncSteps(client: OmnivoreClient): Promise<string> {
+    let lastSyncDate = syncState.lastSyncDate;
     const syncType = await joplin.settings.value('syncType') as SyncType;
     const highlightSyncPeriod = await joplin.settings.value('highlightSyncPeriod');
-    const targetNotebook = await joplin.settings.value('targetNotebook');
 
     if (!lastSyncDate) {
         lastSyncDate = new Date(0).toISOString();
@@ -264,92 +827,135 @@ async function performSync(client: OmnivoreClient) {
     await logger.debug(`Last sync date: ${lastSyncDate}`);
     await logger.debug(`Sync type: ${syncType}`);
 
-    try {
-        // Check for the main target folder and create it if it doesn't exist
-        const mainTargetFolder = await getOrCreateNotebook(targetNotebook);
-        await logger.info(`Main target folder confirmed: ${mainTargetFolder.title} (ID: ${mainTargetFolder.id})`);
-
-        // Check for article sub-notebook and create if needed
-        const articleSubNotebookName = await joplin.settings.value('articleSubNotebook');
-        const articleTargetFolder = articleSubNotebookName
-            ? await getOrCreateNotebook(articleSubNotebookName, mainTargetFolder.id)
-            : mainTargetFolder;
-        await logger.info(`Article target folder confirmed: ${articleTargetFolder.title} (ID: ${articleTargetFolder.id})`);
-
-        // Check for highlight sub-notebook and create if needed
-        const highlightSubNotebookName = await joplin.settings.value('highlightSubNotebook');
-        const highlightTargetFolder = highlightSubNotebookName
-            ? await getOrCreateNotebook(highlightSubNotebookName, mainTargetFolder.id)
-            : mainTargetFolder;
-        await logger.info(`Highlight target folder confirmed: ${highlightTargetFolder.title} (ID: ${highlightTargetFolder.id})`);
-
-        let newLastSyncDate = lastSyncDate;
-
-        const articleLabels = (await joplin.settings.value('articleLabels') as string).split(',').map(label => label.trim()).filter(Boolean);
-        const highlightLabels = (await joplin.settings.value('highlightLabels') as string).split(',').map(label => label.trim()).filter(Boolean);
-
-        if (syncType === SyncType.All || syncType === SyncType.Articles) {
-            const articleResult = await syncArticles(client, turndownService, lastSyncDate, articleLabels, articleTargetFolder.id);
-            newLastSyncDate = articleResult.newLastSyncDate;
-            await joplin.settings.setValue('syncedArticles', JSON.stringify(articleResult.syncedArticles));
-        }
+    const { articleTargetFolder, highlightTargetFolder } = await getTargetFolders();
 
-        if (syncType === SyncType.All || syncType === SyncType.Highlights) {
-            const highlightResult = await syncHighlights(client, turndownService, lastSyncDate, highlightSyncPeriod, highlightLabels, highlightTargetFolder.id);
-            if (new Date(highlightResult.newLastSyncDate) > new Date(newLastSyncDate)) {
-                newLastSyncDate = highlightResult.newLastSyncDate;
-            }
-            await joplin.settings.setValue('syncedHighlights', JSON.stringify(highlightResult.syncedHighlights));
+    let newLastSyncDate = lastSyncDate;
+
+    const articleLabels = await getLabelsSetting('articleLabels');
+    const highlightLabels = await getLabelsSetting('highlightLabels');
+
+    if (syncType === SyncType.All || syncType === SyncType.Articles) {
+        const articleResult = await syncArticles(client, turndownService, lastSyncDate, articleLabels, await joplin.settings.value('articleQuery'), articleTargetFolder.id);
+        newLastSyncDate = articleResult.newLastSyncDate;
+    }
+
+    if (syncType === SyncType.All || syncType === SyncType.Highlights) {
+        // Pushing annotations writes to Omnivore, so a preview leaves it out
+        if (await joplin.settings.value('pushAnnotations') && !syncPreview.active) {
+            await pushAnnotations(client);
         }
+        const highlightResult = await syncHighlights(client, turndownService, lastSyncDate, highlightSyncPeriod, highlightLabels, await joplin.settings.value('highlightQuery'), highlightTargetFolder.id);
+        if (new Date(highlightResult.newLastSyncDate) > new Date(newLastSyncDate)) {
+            newLastSyncDate = highlightResult.newLastSyncDate;
+        }
+    }
 
-        await cleanupHighlightNotes();
+    if ((syncType === SyncType.All || syncType === SyncType.Articles) && await joplin.settings.value('markHighlightsInArticles')) {
+        syncStatus.setPhase('Marking highlights in articles');
+        await remarkArticleNotes(client, highlightSyncPeriod);
+    }
 
-        const syncedArticles = JSON.parse(await joplin.settings.value('syncedArticles') || '[]');
-        const cleanedArticles = await cleanupOldArticles(syncedArticles);
-        await joplin.settings.setValue('syncedArticles', JSON.stringify(cleanedArticles));
+    const reconcileAction = await joplin.settings.value('reconcileAction') as ReconcileAction;
+    if (reconcileAction !== ReconcileAction.None) {
+        syncStatus.setPhase('Handling archived and deleted items');
+        await reconcileItems(client, lastSyncDate, reconcileAction, async () => {
+            return (await getOrCreateNotebook(ARCHIVE_NOTEBOOK_NAME, articleTargetFolder.id)).id;
+        });
+    }
 
-        await joplin.settings.setValue('lastSyncDate', newLastSyncDate);
-        await logger.info(`Sync completed. New last sync date: ${newLastSyncDate}`);
+    syncStatus.setPhase('Cleaning up highlight notes');
+    await cleanupHighlightNotes();
+
+    return newLastSyncDate;
+}
+
+function scheduleTemplateNoteValidation(kind: TemplateKind) {
+    clearTimeout(templateNoteTimers[kind]);
+    templateNoteTimers[kind] = setTimeout(async () => {
+        delete templateNoteTimers[kind];
+        await validateCustomTemplate(kind, false);
+    }, TEMPLATE_NOTE_VALIDATION_DELAY_MS);
+}
+
+// Log the problems of a custom template, and show them in a dialog unless showDialog is false
+async function validateCustomTemplate(kind: TemplateKind, showDialog = true) {
+    if (kind === 'highlight' || kind === 'article') {
+        if (await joplin.settings.value(`${kind}TemplateChoice`) !== 'custom') {
+            return;
+        }
+    } else if (!(await joplin.settings.value(`${kind}Template`) as string).trim()) {
+        // An empty title template stands for the default one
+        return;
+    }
+    try {
+        await getCustomTemplate(kind);
+        await logger.debug(`Custom ${kind} template is valid`);
     } catch (error) {
-        await logger.error(`Error during sync: ${error.message}`);
+        await logger.warn(error.message);
+        if (showDialog) {
+            await joplin.views.dialogs.showMessageBox(error.message);
+        }
     }
 }
 
-async function getOrCreateNotebook(notebookName: string, parentId?: string, maxRetries = 5): Promise<any> {
-    const sanitizedName = notebookName.trim();
+async function getTargetFolders(): Promise<{ articleTargetFolder: any, highlightTargetFolder: any }> {
+    // Check for the main target folder and create it if it doesn't exist
+    const targetNotebook = await joplin.settings.value('targetNotebook');
+    const mainTargetFolder = await getOrCreateNotebook(targetNotebook);
+    await logger.info(`Main target folder confirmed: ${mainTargetFolder.title} (ID: ${mainTargetFolder.id})`);
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-        try {
-            const folders = await joplin.data.get(['folders']);
-            const existingFolder = folders.items.find(folder =>
-                folder.title.toLowerCase() === sanitizedName.toLowerCase() &&
-                (parentId ? folder.parent_id === parentId : true)
-            );
-
-            if (existingFolder) {
-                await logger.info(`Found existing folder: ${sanitizedName}`);
-                return existingFolder;
-            } else if (attempt === 0) {
-                // Only try to create the folder on the first attempt
-                await logger.info(`Attempting to create folder: ${sanitizedName}`);
-                const newFolder = await joplin.data.post(['folders'], null, {
-                    title: sanitizedName,
-                    parent_id: parentId
-                });
-                // Don't return immediately, continue to next iteration to verify creation
-            } else {
-                await logger.warn(`Folder not found on attempt ${attempt + 1}: ${sanitizedName}`);
-            }
-        } catch (error) {
-            await logger.error(`Error on attempt ${attempt + 1} for folder ${sanitizedName}: ${error.message}`);
-        }
+    // Check for article sub-notebook and create if needed
+    const articleSubNotebookName = await joplin.settings.value('articleSubNotebook');
+    const articleTargetFolder = articleSubNotebookName
+        ? await getOrCreateNotebook(articleSubNotebookName, mainTargetFolder.id)
+        : mainTargetFolder;
+    await logger.info(`Article target folder confirmed: ${articleTargetFolder.title} (ID: ${articleTargetFolder.id})`);
+
+    // Check for highlight sub-notebook and create if needed
+    const highlightSubNotebookName = await joplin.settings.value('highlightSubNotebook');
+    const highlightTargetFolder = highlightSubNotebookName
+        ? await getOrCreateNotebook(highlightSubNotebookName, mainTargetFolder.id)
+        : mainTargetFolder;
+    await logger.info(`Highlight target folder confirmed: ${highlightTargetFolder.title} (ID: ${highlightTargetFolder.id})`);
+
+    return { articleTargetFolder, highlightTargetFolder };
+}
 
-        // Exponential backoff
-        const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s, 8s, 16s
-        await logger.info(`Waiting ${delay}ms before retry...`);
-        await setTimeout(delay);
+// Count the items the article and highlight queries match, both for the next sync and overall
+async function previewQueryMatches(client: OmnivoreClient): Promise<string> {
+    const articleLabels = await getLabelsSetting('articleLabels');
+    const articleQuery = await joplin.settings.value('articleQuery');
+    const highlightLabels = await getLabelsSetting('highlightLabels');
+    const highlightQuery = await joplin.settings.value('highlightQuery');
+    const highlightSyncPeriod = await joplin.settings.value('highlightSyncPeriod');
+    const lastSyncDate = syncState.lastSyncDate;
+
+    const nextArticles = buildArticleQuery(lastSyncDate, articleLabels, articleQuery);
+    const allArticles = buildArticleQuery('', articleLabels, articleQuery);
+    const oldestDate = new Date();
+    oldestDate.setDate(oldestDate.getDate() - highlightSyncPeriod);
+    // As in a sync, highlights are fetched from the earlier of the last sync date and the start of the sync period
+    const lastSync = lastSyncDate ? new Date(lastSyncDate) : new Date(0);
+    const highlightSince = lastSync < oldestDate ? lastSync : oldestDate;
+    const highlights = buildHighlightQuery(highlightSince.toISOString().split('T')[0], highlightLabels, highlightQuery);
+
+    const lines = [
+        'Articles',
+        `Query: ${allArticles.query}`,
+        `${await client.countItems(allArticles.query)} items match in total, ${await client.countItems(nextArticles.query)} of them changed since the last sync.`,
+        '',
+        'Highlights',
+        `Query: ${highlights.query}`,
+        `${await client.countItems(highlights.query)} items with highlights match within the sync period.`
+    ];
+    const dropped = [...allArticles.dropped, ...highlights.dropped];
+    if (dropped.length > 0) {
+        lines.push('', `Ignored clauses that the plugin sets itself: ${dropped.join(' ')}`);
     }
+    return lines.join('\n');
+}
 
-    throw new Error(`Failed to create or find folder ${sanitizedName} after ${maxRetries} attempts`);
+async function getLabelsSetting(key: string): Promise<string[]> {
+    return (await joplin.settings.value(key) as string).split(',').map(label => label.trim()).filter(Boolean);
 }
 
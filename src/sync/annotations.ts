@@ -0,0 +1,112 @@
+// sync/annotations.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { HighlightState } from '../types';
+import { OmnivoreClient } from '../api/omnivore';
+import { findHighlightBlocks, extractAnnotation } from './markers';
+import { decodeAndCleanText } from './highlight';
+import { syncState } from './state';
+import { logger } from '../logger';
+
+interface AnnotationEdit {
+    highlightId: string;
+    annotation: string;
+    records: HighlightState[];
+}
+
+// Send annotations edited in Joplin, under the "Note" section of a highlight, back to Omnivore.
+// An edit is only pushed if the highlight was not changed in Omnivore since it was last synced.
+export async function pushAnnotations(client: OmnivoreClient): Promise<number> {
+    const edits = await findAnnotationEdits();
+    if (edits.length === 0) {
+        await logger.debug('No annotations edited in Joplin');
+        return 0;
+    }
+
+    const itemIds = Array.from(new Set(edits.flatMap(edit => edit.records.map(record => record.itemId))));
+    const remoteHighlights = new Map((await client.getItemHighlights(itemIds)).map(highlight => [highlight.id, highlight]));
+    let pushedCount = 0;
+
+    for (const edit of edits) {
+        const remote = remoteHighlights.get(edit.highlightId);
+        const record = edit.records[0];
+        if (!remote) {
+            await logger.warn(`Highlight ${edit.highlightId} no longer exists in Omnivore, not pushing its annotation`);
+            continue;
+        }
+        if (remote.updatedAt !== record.updatedAt) {
+            await logger.warn(`Highlight ${edit.highlightId} was changed in Omnivore (${remote.updatedAt}) after it was last synced (${record.updatedAt}). Not pushing the annotation edited in Joplin.`);
+            continue;
+        }
+
+        try {
+            const updatedAt = await client.updateHighlight(edit.highlightId, edit.annotation);
+            for (const editedRecord of edit.records) {
+                editedRecord.annotation = edit.annotation;
+                editedRecord.renderedAnnotation = edit.annotation;
+                editedRecord.updatedAt = updatedAt;
+            }
+            pushedCount++;
+            await logger.info(`Pushed annotation of highlight ${edit.highlightId} to Omnivore`);
+        } catch (error) {
+            await logger.warn(`Failed to push annotation of highlight ${edit.highlightId}: ${error.message}`);
+        }
+    }
+
+    await syncState.save();
+    await logger.info(`Pushed ${pushedCount} annotations to Omnivore`);
+    return pushedCount;
+}
+
+// Compare the annotations in the highlight notes with the ones last synced
+async function findAnnotationEdits(): Promise<AnnotationEdit[]> {
+    const recordsByNote: { [noteId: string]: { [highlightId: string]: HighlightState[] } } = {};
+    for (const group of Object.values(syncState.getHighlights())) {
+        for (const [highlightId, record] of Object.entries(group)) {
+            // Highlights synced before IDs were written into the notes can't be found
+            if (!record.noteId || !record.itemId) {
+                continue;
+            }
+            recordsByNote[record.noteId] = recordsByNote[record.noteId] || {};
+            recordsByNote[record.noteId][highlightId] = recordsByNote[record.noteId][highlightId] || [];
+            recordsByNote[record.noteId][highlightId].push(record);
+        }
+    }
+
+    const edits: { [highlightId: string]: AnnotationEdit } = {};
+    for (const [noteId, records] of Object.entries(recordsByNote)) {
+        let note;
+        try {
+            note = await joplin.data.get(['notes', noteId], { fields: ['id', 'body'] });
+        } catch (error) {
+            continue;
+        }
+
+        for (const block of findHighlightBlocks(note.body || '')) {
+            const blockRecords = records[block.id];
+            if (!blockRecords || edits[block.id]) {
+                continue;
+            }
+            const annotation = getEditedAnnotation(block.text, blockRecords[0]);
+            if (annotation !== null) {
+                edits[block.id] = { highlightId: block.id, annotation, records: blockRecords };
+            }
+        }
+    }
+
+    return Object.values(edits);
+}
+
+// The annotation of a highlight block if it was edited in Joplin, otherwise null. It is compared with the
+// annotation as the plugin rendered it, since a template can show it in a way that doesn't read back the same.
+// An annotation that reads as empty is never pushed, so a template that can't be read back doesn't clear it.
+export function getEditedAnnotation(blockText: string, record: HighlightState): string | null {
+    const annotation = extractAnnotation(blockText);
+    if (!annotation) {
+        return null;
+    }
+    // Highlights written before the rendered annotation was recorded had their annotation decoded twice
+    const rendered = record.renderedAnnotation !== undefined ? record.renderedAnnotation : decodeAndCleanText(record.annotation || '');
+    return annotation !== (rendered || '') ? annotation : null;
+}
@@ -3,115 +3,484 @@
 
 import joplin from 'api';
 import TurndownService from 'turndown';
-import fetch from 'node-fetch';
-import { Article, SyncedArticle } from '../types';
-import { OmnivoreClient } from '../api/omnivore';
+import { Article, ArticleState, ArticleUpdatePolicy, ImageStrategy } from '../types';
+import { CursorStore, OmnivoreClient } from '../api/omnivore';
+import { getTagsByNote, updateNoteTags } from './tags';
+import { syncState } from './state';
+import { syncStatus } from './status';
+import { getPreviewId, syncPreview } from './preview';
+import { LabelPush, pushArticleLabels, resolveArticleTags } from './labels';
 import { logger } from '../logger';
-import { Buffer } from 'buffer';
+import { withDeletedTime } from '../version';
+import { hashString, getOmnivoreUrl } from '../utils';
+import { DateTime } from 'luxon';
+import { decodeAndCleanText, formatAsQuote } from './highlight';
+import { getCustomTemplate, renderTemplate, yamlValue } from './templates';
+import { markHighlights } from './inline';
+import { applyImageStrategy } from './attachments';
+import { getTitleTemplate, renderArticleTitle } from './titles';
+import { articleToRoutable, findRoutingRule, getRoutedFolderId, getRoutingRules } from './routing';
 
-export async function syncArticles(client: OmnivoreClient, turndownService: TurndownService, lastSyncDate: string, labels: string[], targetFolderId: string): Promise<{newLastSyncDate: string, syncedArticles: SyncedArticle[]}> {
+const ARTICLE_TEMPLATES = {
+    default: `
+---
+title: {{{yaml.title}}}
+author: {{{yaml.author}}}
+site: {{{yaml.siteName}}}
+url: {{{yaml.originalArticleUrl}}}
+omnivore: {{{yaml.omnivoreUrl}}}
+saved: {{{yaml.savedAt}}}
+published: {{{yaml.publishedAt}}}
+words: {{{yaml.wordsCount}}}
+labels: {{{yaml.labels}}}
+---
 
-    const articles = await client.getArticles(lastSyncDate, labels);
-    await logger.debug(`Retrieved ${articles.length} articles from Omnivore`);
+**Author**: {{{author}}}
+**Site**: {{{siteName}}}
+**Published**: {{{publishedAt}}}
+**URL**: [Omnivore]({{{omnivoreUrl}}}), [Original]({{{originalArticleUrl}}})
+{{#hasHighlights}}
 
-    let newLastSyncDate = lastSyncDate;
-    let syncedArticles: SyncedArticle[] = JSON.parse(await joplin.settings.value('syncedArticles') || '[]');
-    let newItemsCount = 0;
+## Highlights
 
-    for (const article of articles) {
-        if (!syncedArticles.some(item => item.id === article.id)) {
-            await syncArticleToJoplin(article, turndownService, targetFolderId);
-            syncedArticles.push({ id: article.id, savedAt: article.savedAt });
-            newItemsCount++;
-            if (new Date(article.savedAt) > new Date(newLastSyncDate)) {
-                newLastSyncDate = article.savedAt;
+{{#highlights}}
+{{{quote}}}
+{{#annotation}}
+> **Note**:
+{{{annotation}}}
+{{/annotation}}
+
+{{/highlights}}
+{{/hasHighlights}}
+
+---
+
+{{{content}}}
+    `,
+    contentOnly: `
+{{{content}}}
+    `
+};
+
+interface ArticleRenderOptions {
+    template: string;
+    titleTemplate: string;
+    includeHighlights: boolean;
+    markHighlights: boolean;
+    userTimezone: string;
+    omnivoreWebUrl: string;
+    imageStrategy: ImageStrategy;
+}
+
+export async function syncArticles(client: OmnivoreClient, turndownService: TurndownService, lastSyncDate: string, labels: string[], query: string, targetFolderId: string): Promise<{ newLastSyncDate: string, created: number, updated: number }> {
+    // Tag sync writes to both sides, so a preview leaves it out
+    const twoWayTagSync = await joplin.settings.value('twoWayTagSync') && !syncPreview.active;
+    const tagsByNote = twoWayTagSync ? await getTagsByNote() : null;
+    const labelPushes: LabelPush[] = [];
+    const seenItemIds = new Set<string>();
+    const result = { newLastSyncDate: lastSyncDate, created: 0, updated: 0 };
+    let failed = false;
+
+    // Each page is written before the next one is fetched. The stored cursor only moves past pages written
+    // without errors, so that a sync that stops part way fetches the failed articles again.
+    const cursors: CursorStore = {
+        getCursor: (kind, searchQuery) => syncState.getCursor(kind, searchQuery),
+        setCursor: (kind, searchQuery, after) => {
+            if (!failed) {
+                syncState.setCursor(kind, searchQuery, after);
+            }
+        }
+    };
+    const loadContent = async (articles: Article[]) => {
+        const contents = await client.getItemContents(articles.map(article => article.id));
+        articles.forEach(article => article.content = contents[article.id]);
+    };
+
+    try {
+        syncStatus.setPhase('Fetching articles');
+        for await (const articles of client.getArticles(lastSyncDate, labels, query, cursors)) {
+            syncStatus.addFetched('articles', articles.length);
+            await logger.debug(`Retrieved ${articles.length} articles from Omnivore`);
+            articles.forEach(article => seenItemIds.add(article.id));
+
+            if (twoWayTagSync) {
+                const pageItemIds = new Set(articles.map(article => article.id));
+                labelPushes.push(...await resolveArticleTags(articles, tagsByNote, itemId => pageItemIds.has(itemId)));
             }
+
+            syncStatus.setPhase('Writing articles');
+            // Pages come oldest change first, so the last sync date stops at the first page with a failed article
+            const written = await writeArticles(articles, turndownService, result.newLastSyncDate, targetFolderId, loadContent);
+            if (!failed) {
+                result.newLastSyncDate = written.newLastSyncDate;
+            }
+            failed = failed || written.failed;
+            result.created += written.created;
+            result.updated += written.updated;
+            syncStatus.setPhase('Fetching articles');
+        }
+
+        // Notes of articles that didn't change in Omnivore can still have new tags to push
+        if (twoWayTagSync) {
+            labelPushes.push(...await resolveArticleTags([], tagsByNote, itemId => !seenItemIds.has(itemId)));
+        }
+    } finally {
+        // Also when the sync stops part way, since the label changes are already recorded as agreed on
+        if (labelPushes.length > 0) {
+            syncStatus.setPhase('Pushing labels');
+            await pushArticleLabels(client, labelPushes);
         }
     }
 
-    await logger.info(`Synced ${newItemsCount} new articles from Omnivore.`);
-    return { newLastSyncDate, syncedArticles };
+    return result;
 }
 
-async function syncArticleToJoplin(article: Article, turndownService: TurndownService, targetFolderId: string) {
-    let markdown = turndownService.turndown(article.content);
+// Write articles that are not synced yet as notes, and update the notes of articles that changed.
+// Shared by the live sync and the export import. Articles fetched without their content get it from loadContent,
+// which is only called for the articles that are written. failed is true if any article failed to be written.
+export async function writeArticles(articles: Article[], turndownService: TurndownService, lastSyncDate: string, targetFolderId: string, loadContent?: (articles: Article[]) => Promise<void>): Promise<{ newLastSyncDate: string, created: number, updated: number, failed: boolean }> {
+    let newLastSyncDate = lastSyncDate;
+    const updatePolicy = await joplin.settings.value('articleUpdatePolicy') as ArticleUpdatePolicy;
+    const renderOptions = await getArticleRenderOptions();
+    const routingRules = await getRoutingRules();
+    const folderCache = new Map<string, string>();
+    const progressThreshold = await joplin.settings.value('readingProgressThreshold') as number || 0;
+    const unreadAsTodo = await joplin.settings.value('unreadAsTodo') as boolean;
+    let newItemsCount = 0;
+    let updatedItemsCount = 0;
+    let skippedCount = 0;
+    let completedCount = 0;
+    let failed = false;
 
-    // Simplified regex to catch all cases
-    const imageRegex = /!\[([^\]]*)\]\((:\/[a-f0-9]+)(?:\]\([^\)]+\))?\)|\[!\[([^\]]*)\]\((:\/[a-f0-9]+)\)\]\([^\)]+\)|\!\[([^\]]*)\]\((https?:\/\/[^\)]+)\)/g;
+    if (loadContent) {
+        const needed = articles.filter(article => {
+            const articleState = syncState.getArticle(article.id);
+            return articleState
+                ? !!articleState.noteId && hasChanged(article, articleState)
+                : (article.readingProgressPercent || 0) >= progressThreshold;
+        });
+        if (needed.length > 0) {
+            await loadContent(needed);
+        }
+    }
 
-    markdown = markdown.replace(imageRegex, (match, alt1, resourceId1, alt2, resourceId2, alt3, url) => {
-        if (resourceId1 || resourceId2) {
-            // If a resource ID is present, simplify to just the image with resource ID
-            const altText = alt1 || alt2 || '';
-            const resourceId = resourceId1 || resourceId2;
-            return `![${altText}](${resourceId})`;
-        } else if (url) {
-            // For now, leave URL-based images as they are
-            // We'll handle downloading and replacing these in a separate step
-            return match;
+    for (const article of articles) {
+        syncStatus.throwIfCancelled();
+        const articleState = syncState.getArticle(article.id);
+        if (articleState && !articleState.noteId) {
+            // Synced before note IDs were recorded, so there is no note to update
+            continue;
         }
-        return match; // If none of the above, leave unchanged
-    });
 
-    // Now handle remaining URL-based images
-    const urlImageRegex = /!\[([^\]]*)\]\((https?:\/\/[^\)]+)\)/g;
-    let urlMatch;
-    while ((urlMatch = urlImageRegex.exec(markdown)) !== null) {
-        const [fullMatch, altText, imageUrl] = urlMatch;
         try {
-            // Download the image
-            const response = await fetch(imageUrl);
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+            if (!articleState) {
+                if ((article.readingProgressPercent || 0) < progressThreshold) {
+                    // Not recorded in the sync state, so the article is picked up again once reading it
+                    // in Omnivore updates the item
+                    skippedCount++;
+                } else {
+                    // Routing rules decide where a note goes when it is created; notes are not moved afterwards
+                    const rule = findRoutingRule(routingRules, articleToRoutable(article));
+                    const folderId = await getRoutedFolderId(rule, targetFolderId, folderCache);
+                    const asTodo = unreadAsTodo && !isFullyRead(article);
+                    syncState.setArticle(article.id, await syncArticleToJoplin(article, turndownService, folderId, renderOptions, rule ? rule.tags : [], asTodo));
+                    syncStatus.addWritten('articles', 1);
+                    newItemsCount++;
+                }
+            } else {
+                if (articleState.openTodo && isFullyRead(article) && await completeTodo(articleState)) {
+                    completedCount++;
+                }
+                if (await updateArticleNote(article, articleState, turndownService, updatePolicy, renderOptions)) {
+                    syncStatus.addWritten('articles', 1);
+                    updatedItemsCount++;
+                }
             }
-            const arrayBuffer = await response.arrayBuffer();
-            const buffer = Buffer.from(arrayBuffer);
+        } catch (error) {
+            await syncStatus.recordItemError(error, { kind: 'article', title: article.title, itemId: article.id, noteId: articleState?.noteId });
+            // Articles come oldest change first, so keeping the last sync date before the failed one
+            // makes the next sync try it again
+            failed = true;
+            continue;
+        }
 
-            // Create attachment in Joplin
-            const attachment = await joplin.data.post(['resources'], null, {
-                title: altText || 'Image',
-                body: buffer
-            });
+        const changedAt = article.updatedAt || article.savedAt;
+        if (!failed && new Date(changedAt) > new Date(newLastSyncDate)) {
+            newLastSyncDate = changedAt;
+        }
+    }
 
-            // Replace the image reference in markdown with just the attachment reference
-            const newImageRef = `![${altText}](:/${attachment.id})`;
-            markdown = markdown.replace(fullMatch, newImageRef);
+    await syncState.save();
+    await logger.info(`Synced ${newItemsCount} new and ${updatedItemsCount} updated articles from Omnivore.`);
+    if (skippedCount > 0) {
+        await logger.info(`Skipped ${skippedCount} articles read less than ${progressThreshold}%`);
+    }
+    if (completedCount > 0) {
+        await logger.info(`Completed the to-dos of ${completedCount} articles read in Omnivore`);
+    }
+    return { newLastSyncDate, created: newItemsCount, updated: updatedItemsCount, failed };
+}
 
-            await logger.debug(`Processed image: ${imageUrl} -> Attachment ID: ${attachment.id}`);
-        } catch (error) {
-            await logger.warn(`Failed to process image: ${imageUrl}`, error);
-            // Keep the original image reference unchanged in case of error
-        }
+async function syncArticleToJoplin(article: Article, turndownService: TurndownService, targetFolderId: string, renderOptions: ArticleRenderOptions, routedTags: string[], asTodo: boolean): Promise<ArticleState> {
+    const { markdown, markedHighlightIds } = await renderArticleBody(article, turndownService, renderOptions);
+    const title = renderArticleTitle(article, renderOptions.titleTemplate, renderOptions.userTimezone);
+    const labels = getLabelNames(article);
+
+    if (syncPreview.active) {
+        syncPreview.record('create', title, asTodo ? 'article, as a to-do' : 'article');
+        return toArticleState(article, getPreviewId(article.id), title, markdown, labels, markedHighlightIds);
     }
 
     // Create the note with the updated markdown
-    await joplin.data.post(['notes'], null, {
+    const note = await joplin.data.post(['notes'], null, {
         parent_id: targetFolderId,
-        title: article.title,
+        title,
         body: markdown,
         author: 'Omnivore Sync',
         source_url: article.url,
-        tags: article.labels ? article.labels.map(label => label.name).join(',') : ''
+        tags: [...labels, ...routedTags].join(','),
+        is_todo: asTodo ? 1 : 0
     });
 
     await logger.info(`Synced article: ${article.title}`);
+    const articleState = { ...toArticleState(article, note.id, title, markdown, labels, markedHighlightIds), routedTags };
+    if (asTodo) {
+        articleState.openTodo = true;
+    }
+    return articleState;
 }
 
-export async function cleanupOldArticles(syncedArticles: SyncedArticle[]): Promise<SyncedArticle[]> {
-    await logger.debug('Starting cleanup process for articles');
+function isFullyRead(article: Article): boolean {
+    return (article.readingProgressPercent || 0) >= 100;
+}
+
+// Mark the to-do of an article read in Omnivore as complete. The to-do is completed only once, so a to-do
+// reopened in Joplin stays open. Returns true if the to-do was completed.
+async function completeTodo(articleState: ArticleState): Promise<boolean> {
+    articleState.openTodo = false;
+
+    let note;
     try {
-        const thresholdDate = new Date();
-        thresholdDate.setDate(thresholdDate.getDate() - 3);
+        note = await joplin.data.get(['notes', articleState.noteId], { fields: await withDeletedTime(['id', 'is_todo', 'todo_completed']) });
+    } catch (error) {
+        note = null;
+    }
+    if (!note || note.deleted_time || !note.is_todo || note.todo_completed) {
+        return false;
+    }
 
-        const recentArticles = syncedArticles.filter(item => {
-            const itemSavedAt = new Date(item.savedAt);
-            return itemSavedAt >= thresholdDate;
-        });
+    if (syncPreview.active) {
+        syncPreview.record('update', articleState.title, 'to-do completed');
+        return true;
+    }
+    await joplin.data.put(['notes', articleState.noteId], null, { todo_completed: Date.now() });
+    await logger.debug(`Completed the to-do of "${articleState.title}"`);
+    return true;
+}
+
+// Update the note of an already synced article in place if the item changed in Omnivore.
+// Returns true if the note was updated.
+async function updateArticleNote(article: Article, articleState: ArticleState, turndownService: TurndownService, updatePolicy: ArticleUpdatePolicy, renderOptions: ArticleRenderOptions): Promise<boolean> {
+    if (!hasChanged(article, articleState)) {
+        return false;
+    }
 
-        await logger.debug(`Cleaned up synced articles. Kept ${recentArticles.length} out of ${syncedArticles.length}`);
-        return recentArticles;
+    let note;
+    try {
+        note = await joplin.data.get(['notes', articleState.noteId], { fields: ['id', 'title', 'body'] });
     } catch (error) {
-        await logger.error(`Error in cleanupOldArticles: ${error.message}`);
-        return syncedArticles; // Return original array if there's an error
+        note = null;
+    }
+    if (!note) {
+        await logger.info(`Note for article "${article.title}" no longer exists in Joplin, not updating it`);
+        return false;
+    }
+
+    const editedLocally = hashString(note.body) !== articleState.bodyHash || note.title !== articleState.title;
+    if (editedLocally && updatePolicy === ArticleUpdatePolicy.LocalWins) {
+        await logger.warn(`Article "${article.title}" changed in Omnivore, but its note was edited in Joplin. Keeping the local edits.`);
+        articleState.updatedAt = article.updatedAt;
+        articleState.hash = article.hash;
+        // The policy only protects the title and body, so label changes still reach the note's tags
+        return await updateArticleTags(article, articleState);
+    }
+
+    const { markdown, markedHighlightIds } = await renderArticleBody(article, turndownService, renderOptions);
+    const title = renderArticleTitle(article, renderOptions.titleTemplate, renderOptions.userTimezone);
+    const labels = getLabelNames(article);
+
+    if (syncPreview.active) {
+        syncPreview.record('update', title, editedLocally ? 'article, overwriting local edits' : 'article');
+        return true;
+    }
+
+    await joplin.data.put(['notes', articleState.noteId], null, {
+        title,
+        body: markdown,
+        source_url: article.url
+    });
+    await updateNoteTags(articleState.noteId, labels, articleState.labels || []);
+
+    Object.assign(articleState, toArticleState(article, articleState.noteId, title, markdown, labels, markedHighlightIds));
+    await logger.info(`Updated article: ${article.title}`);
+    return true;
+}
+
+// Bring the tags of an article note to the current labels of the article. Returns true if the labels changed.
+async function updateArticleTags(article: Article, articleState: ArticleState): Promise<boolean> {
+    const labels = getLabelNames(article);
+    const previousLabels = articleState.labels || [];
+    const normalize = (names: string[]) => names.map(name => name.toLowerCase()).sort().join('\n');
+    if (normalize(labels) === normalize(previousLabels)) {
+        return false;
+    }
+
+    if (syncPreview.active) {
+        syncPreview.record('update', articleState.title, 'article tags');
+        return true;
+    }
+    await updateNoteTags(articleState.noteId, labels, previousLabels);
+    articleState.labels = labels;
+    await logger.info(`Updated the tags of article: ${article.title}`);
+    return true;
+}
+
+function hasChanged(article: Article, articleState: ArticleState): boolean {
+    const hashChanged = !!article.hash && article.hash !== articleState.hash;
+    const updatedAtChanged = !!article.updatedAt && article.updatedAt !== articleState.updatedAt;
+    return hashChanged || updatedAtChanged;
+}
+
+function toArticleState(article: Article, noteId: string, title: string, body: string, labels: string[], markedHighlightIds: string[]): ArticleState {
+    return {
+        noteId,
+        savedAt: article.savedAt,
+        updatedAt: article.updatedAt,
+        hash: article.hash,
+        bodyHash: hashString(body),
+        title,
+        labels,
+        syncedAt: new Date().toISOString(),
+        markedHighlightIds
+    };
+}
+
+function getLabelNames(article: Article): string[] {
+    return article.labels ? article.labels.map(label => label.name) : [];
+}
+
+async function getArticleRenderOptions(): Promise<ArticleRenderOptions> {
+    const choice = await joplin.settings.value('articleTemplateChoice');
+    return {
+        template: choice === 'custom' ? await getCustomTemplate('article') : (ARTICLE_TEMPLATES[choice] || ARTICLE_TEMPLATES.default).trim(),
+        titleTemplate: await getTitleTemplate('articleTitle'),
+        includeHighlights: await joplin.settings.value('articleIncludeHighlights'),
+        markHighlights: await joplin.settings.value('markHighlightsInArticles'),
+        userTimezone: await joplin.settings.value('userTimezone') || 'local',
+        omnivoreWebUrl: await joplin.settings.value('omnivoreWebUrl') || 'https://omnivore.app',
+        imageStrategy: await joplin.settings.value('imageStrategy') as ImageStrategy
+    };
+}
+
+// Render the note body from the article template
+async function renderArticleBody(article: Article, turndownService: TurndownService, options: ArticleRenderOptions): Promise<{ markdown: string, markedHighlightIds: string[] }> {
+    let content = await convertArticleContent(article, turndownService, options.imageStrategy);
+    let markedHighlightIds: string[] = [];
+    if (options.markHighlights && article.highlights) {
+        const marked = markHighlights(content, article.highlights);
+        content = marked.markdown;
+        markedHighlightIds = marked.markedIds;
     }
+    const formatDate = (date: string | null | undefined) => date ?
+        DateTime.fromISO(date).setZone(options.userTimezone).toFormat('yyyy-MM-dd HH:mm') : 'Unknown';
+    const isoDate = (date: string | null | undefined) => date ?
+        DateTime.fromISO(date).setZone(options.userTimezone).toISO() : null;
+
+    const omnivoreUrl = getOmnivoreUrl(options.omnivoreWebUrl, article.slug || article.id);
+    const originalArticleUrl = article.originalArticleUrl || article.url;
+    const labels = getLabelNames(article);
+    const highlights = options.includeHighlights
+        ? (article.highlights || [])
+            .filter(highlight => highlight.quote)
+            .sort((a, b) => (a.highlightPositionPercent || 0) - (b.highlightPositionPercent || 0))
+            .map(highlight => ({
+                id: highlight.id,
+                quote: formatAsQuote(decodeAndCleanText(highlight.quote)),
+                quoteText: decodeAndCleanText(highlight.quote),
+                annotation: highlight.annotation ? formatAsQuote(decodeAndCleanText(highlight.annotation)) : null,
+                annotationText: highlight.annotation ? decodeAndCleanText(highlight.annotation) : null,
+                color: highlight.color,
+                positionPercent: highlight.highlightPositionPercent !== null && highlight.highlightPositionPercent !== undefined ?
+                    Math.round(highlight.highlightPositionPercent) : null,
+                createdAt: formatDate(highlight.createdAt)
+            }))
+        : [];
+
+    // See ARTICLE_TEMPLATE_VARIABLES for the documentation of each variable
+    const body = renderTemplate(options.template, {
+        id: article.id,
+        title: article.title,
+        author: article.author || 'Unknown',
+        siteName: article.siteName,
+        description: article.description,
+        pageType: article.pageType,
+        url: article.url,
+        originalArticleUrl,
+        omnivoreUrl,
+        slug: article.slug,
+        image: article.image,
+        savedAt: formatDate(article.savedAt),
+        publishedAt: formatDate(article.publishedAt),
+        updatedAt: formatDate(article.updatedAt),
+        wordsCount: article.wordsCount,
+        readingProgressPercent: article.readingProgressPercent,
+        labels: labels.map(name => ({ name })),
+        labelNames: labels.join(', '),
+        content,
+        hasHighlights: highlights.length > 0,
+        highlights,
+        yaml: {
+            title: yamlValue(article.title),
+            author: yamlValue(article.author),
+            siteName: yamlValue(article.siteName),
+            url: yamlValue(article.url),
+            originalArticleUrl: yamlValue(originalArticleUrl),
+            omnivoreUrl: yamlValue(omnivoreUrl),
+            savedAt: yamlValue(isoDate(article.savedAt)),
+            publishedAt: yamlValue(isoDate(article.publishedAt)),
+            wordsCount: article.wordsCount ? String(article.wordsCount) : 'null',
+            labels: JSON.stringify(labels)
+        }
+    }, 'article');
+
+    return { markdown: body.trim(), markedHighlightIds };
+}
+
+// Convert the article HTML to Markdown and handle its images as the image strategy says
+async function convertArticleContent(article: Article, turndownService: TurndownService, imageStrategy: ImageStrategy): Promise<string> {
+    let markdown = turndownService.turndown(article.content || '');
+
+    // Simplified regex to catch all cases
+    const imageRegex = /!\[([^\]]*)\]\((:\/[a-f0-9]+)(?:\]\([^\)]+\))?\)|\[!\[([^\]]*)\]\((:\/[a-f0-9]+)\)\]\([^\)]+\)|\!\[([^\]]*)\]\((https?:\/\/[^\)]+)\)/g;
+
+    markdown = markdown.replace(imageRegex, (match, alt1, resourceId1, alt2, resourceId2, alt3, url) => {
+        if (resourceId1 || resourceId2) {
+            // If a resource ID is present, simplify to just the image with resource ID
+            const altText = alt1 || alt2 || '';
+            const resourceId = resourceId1 || resourceId2;
+            return `![${altText}](${resourceId})`;
+        } else if (url) {
+            // For now, leave URL-based images as they are
+            // We'll handle downloading and replacing these in a separate step
+            return match;
+        }
+        return match; // If none of the above, leave unchanged
+    });
+
+    // A preview doesn't create resources
+    if (syncPreview.active && imageStrategy === ImageStrategy.Download) {
+        return markdown;
+    }
+
+    return await applyImageStrategy(markdown, imageStrategy);
 }
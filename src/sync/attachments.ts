@@ -0,0 +1,309 @@
+// sync/attachments.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import fetch from 'node-fetch';
+import { ImageStrategy } from '../types';
+import { syncState } from './state';
+import { logger } from '../logger';
+import { hashString } from '../utils';
+
+// Images downloaded at the same time
+const DOWNLOAD_CONCURRENCY = 4;
+const DOWNLOAD_TIMEOUT_MS = 30 * 1000;
+const MAX_FILE_NAME_LENGTH = 80;
+
+// Attributes that lazy-loading scripts read the real image URL from
+const LAZY_SOURCE_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-url', 'data-hi-res-src'];
+const LAZY_SRCSET_ATTRIBUTES = ['srcset', 'data-srcset', 'data-lazy-srcset'];
+
+const EXTENSIONS: { [mime: string]: string } = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/avif': 'avif',
+    'image/bmp': 'bmp',
+    'image/x-icon': 'ico',
+    'image/svg+xml': 'svg'
+};
+
+const REMOTE_IMAGE_REGEX = /!\[([^\]]*)\]\((https?:\/\/[^\)\s]+)(?:\s+"[^"]*")?\)/g;
+const LINKED_REMOTE_IMAGE_REGEX = /\[!\[[^\]]*\]\(https?:\/\/[^\)\s]+(?:\s+"[^"]*")?\)\]\([^\)]*\)/g;
+// Images replaced with a link are written as [Image: alt text](url)
+const PLACEHOLDER_REGEX = /\[Image(?:: ([^\]]*))?\]\((https?:\/\/[^\)\s]+)\)/g;
+
+interface ImageElement {
+    getAttribute(name: string): string | null;
+}
+
+// The URL an <img> element shows once loaded: the largest srcset candidate, or the URL a lazy-loading script
+// would put in src. Placeholders such as inline data URIs are skipped. Returns null if the image has no URL.
+export function getImageUrl(element: ImageElement): string | null {
+    for (const attribute of LAZY_SRCSET_ATTRIBUTES) {
+        const url = getLargestSrcsetUrl(element.getAttribute(attribute));
+        if (url) {
+            return withProtocol(url);
+        }
+    }
+    for (const attribute of [...LAZY_SOURCE_ATTRIBUTES, 'src']) {
+        const url = (element.getAttribute(attribute) || '').trim();
+        if (url && !url.startsWith('data:')) {
+            return withProtocol(url);
+        }
+    }
+    return null;
+}
+
+// Protocol-relative URLs would not be recognized as remote images
+function withProtocol(url: string): string {
+    return url.startsWith('//') ? `https:${url}` : url;
+}
+
+// Candidates are "url 800w" or "url 2x"; the widest or densest one wins
+function getLargestSrcsetUrl(srcset: string | null): string | null {
+    if (!srcset) {
+        return null;
+    }
+    let best: { url: string, size: number } | null = null;
+    // URLs can contain commas, so candidates are split at commas followed by whitespace
+    for (const candidate of srcset.split(/,\s+/)) {
+        const [url, descriptor] = candidate.trim().split(/\s+/);
+        if (!url || url.startsWith('data:')) {
+            continue;
+        }
+        const size = descriptor ? parseFloat(descriptor) || 0 : 1;
+        if (!best || size > best.size) {
+            best = { url, size };
+        }
+    }
+    return best ? best.url : null;
+}
+
+// Handle the remote images of a converted article as the Image Handling setting says.
+// Images downloaded before, during a sync or with downloadNoteImages, keep their resource whatever the setting.
+export async function applyImageStrategy(markdown: string, strategy: ImageStrategy): Promise<string> {
+    if (strategy !== ImageStrategy.Download) {
+        markdown = await useDownloadedImages(markdown);
+    }
+    switch (strategy) {
+        case ImageStrategy.KeepRemote:
+            return markdown;
+        case ImageStrategy.Placeholder:
+            return markdown.replace(REMOTE_IMAGE_REGEX, (match, altText, url) => toPlaceholder(altText, url));
+        case ImageStrategy.Skip:
+            // An image that links somewhere would leave an empty link behind
+            return markdown.replace(LINKED_REMOTE_IMAGE_REGEX, '').replace(REMOTE_IMAGE_REGEX, '');
+        default:
+            return await downloadImages(markdown);
+    }
+}
+
+// Download the remote images of a note body as resources and point the image links to them.
+// An image used by several notes is downloaded once; images that fail or are too large keep their URL.
+export async function downloadImages(markdown: string): Promise<string> {
+    const resourceIds = await getImageResources(findUrls(markdown, REMOTE_IMAGE_REGEX));
+    return replaceImages(markdown, REMOTE_IMAGE_REGEX, resourceIds);
+}
+
+// Download the remote images of a synced note, including the ones written as placeholders, and update the note.
+// Returns the number of images downloaded and the number of those that still link to the original.
+export async function downloadNoteImages(noteId: string): Promise<{ downloaded: number, remaining: number }> {
+    const note = await joplin.data.get(['notes', noteId], { fields: ['id', 'body'] });
+    const urls = new Set([...findUrls(note.body, REMOTE_IMAGE_REGEX), ...findUrls(note.body, PLACEHOLDER_REGEX)]);
+    if (urls.size === 0) {
+        return { downloaded: 0, remaining: 0 };
+    }
+
+    const resourceIds = await getImageResources(Array.from(urls));
+    const body = replaceImages(replaceImages(note.body, REMOTE_IMAGE_REGEX, resourceIds), PLACEHOLDER_REGEX, resourceIds);
+    if (body !== note.body) {
+        await joplin.data.put(['notes', noteId], null, { body });
+        // Downloading images is not a local edit, so a note that was unchanged stays eligible for updates from Omnivore
+        const articleState = Object.values(syncState.getArticles()).find(state => state.noteId === noteId);
+        if (articleState && hashString(note.body) === articleState.bodyHash) {
+            articleState.bodyHash = hashString(body);
+            await syncState.save();
+        }
+    }
+    await logger.info(`Downloaded ${resourceIds.size} of ${urls.size} remote images of note ${noteId}`);
+    return { downloaded: resourceIds.size, remaining: urls.size - resourceIds.size };
+}
+
+// Point the remote images whose download still exists to their resource, without downloading anything
+async function useDownloadedImages(markdown: string): Promise<string> {
+    const resourceIds = new Map<string, string>();
+    for (const url of findUrls(markdown, REMOTE_IMAGE_REGEX)) {
+        const cachedId = syncState.getImageResource(url);
+        if (cachedId && await resourceExists(cachedId)) {
+            resourceIds.set(url, cachedId);
+        }
+    }
+    return replaceImages(markdown, REMOTE_IMAGE_REGEX, resourceIds);
+}
+
+function toPlaceholder(altText: string, url: string): string {
+    return `[Image${altText ? `: ${altText}` : ''}](${url})`;
+}
+
+function findUrls(markdown: string, pattern: RegExp): string[] {
+    const urls = new Set<string>();
+    const regex = new RegExp(pattern.source, 'g');
+    let match;
+    while ((match = regex.exec(markdown)) !== null) {
+        urls.add(match[2]);
+    }
+    return Array.from(urls);
+}
+
+function replaceImages(markdown: string, pattern: RegExp, resourceIds: Map<string, string>): string {
+    return markdown.replace(pattern, (match, altText, url) => {
+        const resourceId = resourceIds.get(url);
+        return resourceId ? `![${altText || ''}](:/${resourceId})` : match;
+    });
+}
+
+// Resource IDs of the images that could be downloaded, by URL
+async function getImageResources(urls: string[]): Promise<Map<string, string>> {
+    const resourceIds = new Map<string, string>();
+    if (urls.length === 0) {
+        return resourceIds;
+    }
+
+    const maxBytes = (await joplin.settings.value('maxImageSize') as number || 0) * 1024 * 1024;
+    await runWithConcurrency(urls, DOWNLOAD_CONCURRENCY, async url => {
+        try {
+            const resourceId = await getImageResource(url, maxBytes);
+            if (resourceId) {
+                resourceIds.set(url, resourceId);
+            }
+        } catch (error) {
+            await logger.warn(`Failed to download image ${url}: ${error.message}`);
+        }
+    });
+    await syncState.save();
+    return resourceIds;
+}
+
+// The resource of an image, downloading it unless an earlier download still exists. Returns null if the
+// image is not downloaded.
+async function getImageResource(url: string, maxBytes: number): Promise<string | null> {
+    const cachedId = syncState.getImageResource(url);
+    if (cachedId && await resourceExists(cachedId)) {
+        return cachedId;
+    }
+
+    // node-fetch stops reading the body once it grows beyond size
+    const response = await fetch(url, { timeout: DOWNLOAD_TIMEOUT_MS, size: maxBytes });
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    const contentLength = Number(response.headers.get('Content-Length'));
+    if (maxBytes > 0 && contentLength > maxBytes) {
+        await logger.info(`Not downloading image ${url}, which is larger than the maximum image size`);
+        return null;
+    }
+
+    let buffer: Buffer;
+    try {
+        buffer = await response.buffer();
+    } catch (error) {
+        if (error.type === 'max-size') {
+            await logger.info(`Not downloading image ${url}, which is larger than the maximum image size`);
+            return null;
+        }
+        throw error;
+    }
+
+    // Servers often send a generic type, or an HTML error page with status 200, so the bytes decide
+    const mime = sniffImageType(buffer) || getHeaderImageType(response.headers.get('Content-Type'));
+    if (!mime) {
+        throw new Error(`Not an image (${response.headers.get('Content-Type') || 'no content type'})`);
+    }
+
+    const resourceId = await createResource(buffer, mime, getImageFileName(url, mime));
+    syncState.setImageResource(url, resourceId);
+    await logger.debug(`Processed image: ${url} -> Attachment ID: ${resourceId}`);
+    return resourceId;
+}
+
+// Resources are created from a file, which also gives them their file name and type
+async function createResource(buffer: Buffer, mime: string, fileName: string): Promise<string> {
+    const fs = joplin.require('fs-extra');
+    const tempPath = `${await joplin.plugins.dataDir()}/download-${Date.now()}-${Math.random().toString(36).slice(2)}-${fileName}`;
+    await fs.writeFile(tempPath, buffer);
+    try {
+        const resource = await joplin.data.post(['resources'], null, { title: fileName, mime, filename: fileName }, [{ path: tempPath }]);
+        return resource.id;
+    } finally {
+        await fs.remove(tempPath);
+    }
+}
+
+async function resourceExists(resourceId: string): Promise<boolean> {
+    try {
+        return !!(await joplin.data.get(['resources', resourceId], { fields: ['id'] }));
+    } catch (error) {
+        return false;
+    }
+}
+
+function sniffImageType(buffer: Buffer): string | null {
+    const ascii = (start: number, end: number) => buffer.toString('latin1', start, end);
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) {
+        return 'image/png';
+    }
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+        return 'image/jpeg';
+    }
+    if (ascii(0, 4) === 'GIF8') {
+        return 'image/gif';
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+        return 'image/webp';
+    }
+    if (ascii(4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(8, 12))) {
+        return 'image/avif';
+    }
+    if (ascii(0, 2) === 'BM') {
+        return 'image/bmp';
+    }
+    if (buffer.length >= 4 && buffer.readUInt32BE(0) === 0x00000100) {
+        return 'image/x-icon';
+    }
+    if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(buffer.toString('utf8', 0, 1024).replace(/^\uFEFF/, ''))) {
+        return 'image/svg+xml';
+    }
+    return null;
+}
+
+function getHeaderImageType(contentType: string | null): string | null {
+    const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+    return mime === 'image/jpg' ? 'image/jpeg' : EXTENSIONS[mime] ? mime : null;
+}
+
+// The last part of the URL path, with the extension of the actual image type
+function getImageFileName(url: string, mime: string): string {
+    let baseName = '';
+    try {
+        baseName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+    } catch (error) {
+        baseName = '';
+    }
+    baseName = baseName
+        .replace(/\.[a-z0-9]{1,5}$/i, '')
+        .replace(/[^\w\-. ]+/g, '_')
+        .replace(/^[_. ]+|[_. ]+$/g, '')
+        .slice(0, MAX_FILE_NAME_LENGTH);
+    return `${baseName || 'image'}.${EXTENSIONS[mime]}`;
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
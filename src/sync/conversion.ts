@@ -0,0 +1,320 @@
+// sync/conversion.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import TurndownService from 'turndown';
+import { getImageUrl } from './attachments';
+
+// Class names that carry the language of a code block, e.g. "language-js", "lang-js", "highlight-source-js" or "brush: js"
+const CODE_LANGUAGE_PATTERNS = [
+    /(?:^|\s)lang(?:uage)?-([\w+#.-]+)/i,
+    /(?:^|\s)highlight-(?:source-)?([\w+#.-]+)/i,
+    /(?:^|\s)brush:\s*([\w+#.-]+)/i
+];
+const YOUTUBE_EMBED_REGEX = /^(?:https?:)?\/\/(?:www\.)?(?:youtube(?:-nocookie)?\.com\/embed\/|youtu\.be\/)([\w-]{11})/i;
+const TWEET_URL_REGEX = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/(\w+)\/status(?:es)?\/\d+/i;
+// IDs of footnote entries, e.g. "fn:1", "fn1", "footnote-1" or "note-1"
+const FOOTNOTE_ID_REGEX = /^(?:fn|footnote|note)[\W_]?\w+$/i;
+
+// The converter from article HTML to Markdown, shared by articles and highlights
+export function createTurndownService(): TurndownService {
+    const turndownService = new TurndownService({
+        headingStyle: 'atx',
+        codeBlockStyle: 'fenced'
+    });
+
+    // Custom rule to handle headings
+    turndownService.addRule('heading', {
+        filter: ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'],
+        replacement: function(content: string, node: HTMLElement, options) {
+            const hLevel = Number(node.nodeName.charAt(1));
+            const cleanContent = content.replace(/\[]\([^)]+\)/g, '');
+            return '\n\n' + '#'.repeat(hLevel) + ' ' + cleanContent.trim() + '\n\n';
+        }
+    });
+
+    // Images that load lazily or through srcset get their real URL, so that they can be downloaded
+    turndownService.addRule('image', {
+        filter: 'img',
+        replacement: function(content: string, node: HTMLElement) {
+            const url = getImageUrl(node);
+            if (!url) {
+                return '';
+            }
+            const alt = escapeLinkText((node.getAttribute('alt') || '').replace(/\s+/g, ' '));
+            const title = (node.getAttribute('title') || '').replace(/\s+/g, ' ').replace(/"/g, '\\"');
+            return `![${alt}](${url.replace(/[\s()]/g, encodeURIComponent)}${title ? ` "${title}"` : ''})`;
+        }
+    });
+
+    turndownService.addRule('strikethrough', {
+        filter: ['del', 's', 'strike'],
+        replacement: function(content: string) {
+            return content.trim() ? `~~${content}~~` : '';
+        }
+    });
+
+    // Code blocks, also without a <code> element or with their language in the class of <pre>
+    turndownService.addRule('codeBlock', {
+        filter: 'pre',
+        replacement: function(content: string, node: HTMLElement) {
+            const code = getCodeText(node).replace(/\n$/, '');
+            let fenceSize = 3;
+            for (const fence of code.match(/^`{3,}/gm) || []) {
+                fenceSize = Math.max(fenceSize, fence.length + 1);
+            }
+            const fence = '`'.repeat(fenceSize);
+            return `\n\n${fence}${getCodeLanguage(node)}\n${code}\n${fence}\n\n`;
+        }
+    });
+
+    // GFM tables. The first row is the header, since Markdown tables can't do without one.
+    // Tables with a single column are used for layout only, so their content is kept without the table.
+    turndownService.addRule('tableCell', {
+        filter: ['th', 'td'],
+        replacement: function(content: string, node: HTMLElement) {
+            if (isLayoutTable(getTable(node))) {
+                return `\n\n${content}\n\n`;
+            }
+            const cell = content.trim().replace(/\s*\n\s*/g, '<br>').replace(/\|/g, '\\|');
+            const span = Math.max(1, parseInt(node.getAttribute('colspan') || '1') || 1);
+            return `| ${cell} ` + '|  '.repeat(span - 1);
+        }
+    });
+    turndownService.addRule('tableRow', {
+        filter: 'tr',
+        replacement: function(content: string, node: HTMLElement) {
+            const table = getTable(node);
+            if (isLayoutTable(table)) {
+                return content;
+            }
+            const columns = countColumns(table);
+            const row = `${content}${'|  '.repeat(Math.max(0, columns - countCells(node)))}|\n`;
+            return getRows(table)[0] === node ? `${row}${'| --- '.repeat(columns)}|\n` : row;
+        }
+    });
+    turndownService.addRule('tableSection', {
+        filter: ['thead', 'tbody', 'tfoot'],
+        replacement: function(content: string) {
+            return content;
+        }
+    });
+    turndownService.addRule('tableCaption', {
+        filter: 'caption',
+        replacement: function() {
+            return '';
+        }
+    });
+    turndownService.addRule('table', {
+        filter: 'table',
+        replacement: function(content: string, node: HTMLTableElement, options) {
+            if (isLayoutTable(node)) {
+                return `\n\n${content.trim()}\n\n`;
+            }
+            const captionNode = getChildren(node).find(child => child.nodeName === 'CAPTION');
+            const caption = captionNode ? captionNode.textContent.trim().replace(/\s+/g, ' ') : '';
+            return `\n\n${caption ? `${emphasize(caption, options.emDelimiter)}\n\n` : ''}${content.trim()}\n\n`;
+        }
+    });
+
+    turndownService.addRule('figure', {
+        filter: 'figure',
+        replacement: function(content: string) {
+            return `\n\n${content.trim()}\n\n`;
+        }
+    });
+    turndownService.addRule('figcaption', {
+        filter: 'figcaption',
+        replacement: function(content: string, node: HTMLElement, options) {
+            const caption = content.trim().replace(/\s*\n\s*/g, ' ');
+            return caption ? `\n\n${emphasize(caption, options.emDelimiter)}\n\n` : '';
+        }
+    });
+
+    // Footnote references and the list of footnotes become Markdown footnotes. The labels are the numbers
+    // of the footnotes, while the notes the plugin adds for annotations have labels starting with "omnivore-".
+    turndownService.addRule('footnoteReference', {
+        filter: function(node: HTMLElement) {
+            return node.nodeName === 'A' && isFootnoteReference(node);
+        },
+        replacement: function(content: string, node: HTMLElement) {
+            return `[^${getFootnoteLabel(node.getAttribute('href').slice(1))}]`;
+        }
+    });
+    turndownService.addRule('footnotes', {
+        filter: function(node: HTMLElement) {
+            return ['SECTION', 'DIV', 'OL', 'ASIDE'].includes(node.nodeName) &&
+                (hasClass(node, 'footnotes') || node.getAttribute('role') === 'doc-endnotes' || node.getAttribute('id') === 'footnotes');
+        },
+        replacement: function(content: string, node: HTMLElement) {
+            const notes = Array.from(node.querySelectorAll('li'))
+                .filter(item => FOOTNOTE_ID_REGEX.test(item.getAttribute('id') || ''))
+                .map(item => {
+                    const note = item.cloneNode(true) as HTMLLIElement;
+                    // Drop the links back to the reference, such as "↩"
+                    for (const backLink of Array.from(note.querySelectorAll('a'))) {
+                        if (isFootnoteBackLink(backLink)) {
+                            backLink.parentNode.removeChild(backLink);
+                        }
+                    }
+                    const text = turndownService.turndown(note.innerHTML).trim();
+                    // Lines after the first are indented to stay in the note, except empty ones
+                    return `[^${getFootnoteLabel(item.getAttribute('id'))}]: ${text.replace(/\n(?=.)/g, '\n    ')}`;
+                });
+            return notes.length > 0 ? `\n\n${notes.join('\n\n')}\n\n` : content;
+        }
+    });
+
+    // MathML and KaTeX become $inline$ or $$display$$ math, from the TeX source they carry
+    turndownService.addRule('math', {
+        filter: function(node: HTMLElement) {
+            return node.nodeName.toLowerCase() === 'math' || hasClass(node, 'katex') || hasClass(node, 'katex-display');
+        },
+        replacement: function(content: string, node: HTMLElement) {
+            const annotation = node.querySelector('annotation[encoding="application/x-tex"]');
+            const math = node.nodeName.toLowerCase() === 'math' ? node : node.querySelector('math');
+            const tex = (annotation ? annotation.textContent : (math && math.getAttribute('alttext')) || '').trim();
+            if (!tex) {
+                return math ? math.textContent.trim() : content;
+            }
+            const display = hasClass(node, 'katex-display') || (math && math.getAttribute('display') === 'block');
+            return display ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+        }
+    });
+
+    // Embedded tweets and YouTube videos become links
+    turndownService.addRule('tweet', {
+        filter: function(node: HTMLElement) {
+            return node.nodeName === 'BLOCKQUOTE' && hasClass(node, 'twitter-tweet');
+        },
+        replacement: function(content: string, node: HTMLElement) {
+            const urls = Array.from(node.querySelectorAll('a')).map(link => link.getAttribute('href') || '');
+            const url = urls.reverse().find(href => TWEET_URL_REGEX.test(href));
+            const paragraph = node.querySelector('p');
+            const text = paragraph ? turndownService.turndown(paragraph.innerHTML).trim() : '';
+            const quote = text ? `${toBlockquote(text)}\n>\n` : '';
+            if (!url) {
+                return `\n\n${toBlockquote(content.trim())}\n\n`;
+            }
+            return `\n\n${quote}> [Tweet by @${url.match(TWEET_URL_REGEX)[1]}](${url})\n\n`;
+        }
+    });
+    turndownService.addRule('youtube', {
+        filter: function(node: HTMLElement) {
+            return node.nodeName === 'IFRAME' && YOUTUBE_EMBED_REGEX.test(node.getAttribute('src') || '');
+        },
+        replacement: function(content: string, node: HTMLElement) {
+            const videoId = node.getAttribute('src').match(YOUTUBE_EMBED_REGEX)[1];
+            const title = (node.getAttribute('title') || '').trim();
+            // Embed codes copied from YouTube all have the same title
+            const text = title && title !== 'YouTube video player' ? `YouTube: ${title}` : 'YouTube video';
+            return `\n\n[${escapeLinkText(text)}](https://www.youtube.com/watch?v=${videoId})\n\n`;
+        }
+    });
+
+    return turndownService;
+}
+
+function hasClass(node: Node, className: string): boolean {
+    return (` ${isElement(node) ? node.getAttribute('class') || '' : ''} `).replace(/\s+/g, ' ').includes(` ${className} `);
+}
+
+// Text in emphasis that may contain emphasis itself, which would end it early if it used the same delimiter
+function emphasize(text: string, delimiter: string): string {
+    const outer = text.includes(delimiter) ? (delimiter === '_' ? '*' : '_') : delimiter;
+    return `${outer}${text}${outer}`;
+}
+
+function toBlockquote(text: string): string {
+    return text.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+}
+
+function isElement(node: Node): node is HTMLElement {
+    return node.nodeType === 1;
+}
+
+function getChildren(node: Node): Node[] {
+    return Array.from(node.childNodes);
+}
+
+function escapeLinkText(text: string): string {
+    return text.replace(/[\[\]]/g, '\\$&');
+}
+
+// Code text with line breaks made of <br> or of an element per line, as some highlighters write them
+function getCodeText(node: Node): string {
+    if (node.nodeType === 3) {
+        return node.nodeValue;
+    }
+    if (node.nodeName === 'BR') {
+        return '\n';
+    }
+    const text = getChildren(node).map(getCodeText).join('');
+    return ['DIV', 'P', 'LI'].includes(node.nodeName) && !text.endsWith('\n') ? `${text}\n` : text;
+}
+
+function getCodeLanguage(pre: HTMLElement): string {
+    const code = getChildren(pre).find(child => child.nodeName === 'CODE') as HTMLElement | undefined;
+    for (const node of code ? [code, pre] : [pre]) {
+        const language = node.getAttribute('data-lang') || node.getAttribute('data-language');
+        if (language) {
+            return language.trim().toLowerCase();
+        }
+        const className = node.getAttribute('class') || '';
+        for (const pattern of CODE_LANGUAGE_PATTERNS) {
+            const match = className.match(pattern);
+            if (match) {
+                return match[1].toLowerCase();
+            }
+        }
+    }
+    return '';
+}
+
+function getTable(node: Node): HTMLTableElement | null {
+    let parent = node.parentNode;
+    while (parent && parent.nodeName !== 'TABLE') {
+        parent = parent.parentNode;
+    }
+    return parent as HTMLTableElement | null;
+}
+
+// Rows of the table itself, not of tables nested in it
+function getRows(table: HTMLTableElement | null): HTMLTableRowElement[] {
+    return table ? Array.from(table.querySelectorAll('tr')).filter(row => getTable(row) === table) : [];
+}
+
+function countCells(row: Node): number {
+    return getChildren(row)
+        .filter((child): child is HTMLElement => child.nodeName === 'TD' || child.nodeName === 'TH')
+        .reduce((count, cell) => count + Math.max(1, parseInt(cell.getAttribute('colspan') || '1') || 1), 0);
+}
+
+function countColumns(table: HTMLTableElement | null): number {
+    return getRows(table).reduce((columns, row) => Math.max(columns, countCells(row)), 0);
+}
+
+// Tables with a single column, or with tables inside, lay out a page rather than hold data
+function isLayoutTable(table: HTMLTableElement | null): boolean {
+    return !table || countColumns(table) <= 1 || !!table.querySelector('table');
+}
+
+function isFootnoteReference(link: HTMLElement): boolean {
+    const href = link.getAttribute('href') || '';
+    if (!href.startsWith('#') || !FOOTNOTE_ID_REGEX.test(href.slice(1))) {
+        return false;
+    }
+    return hasClass(link, 'footnote-ref') || link.getAttribute('rel') === 'footnote' ||
+        link.getAttribute('role') === 'doc-noteref' || (link.parentNode && link.parentNode.nodeName === 'SUP');
+}
+
+function isFootnoteBackLink(link: HTMLElement): boolean {
+    const href = link.getAttribute('href') || '';
+    return hasClass(link, 'footnote-backref') || hasClass(link, 'reversefootnote') ||
+        link.getAttribute('role') === 'doc-backlink' || /^#(?:fnref|footnote-ref|ref)/i.test(href);
+}
+
+// The number of a footnote, e.g. "1" for "fn:1", so that the reference and the note get the same label
+function getFootnoteLabel(id: string): string {
+    const number = id.match(/(\d+)$/);
+    return number ? number[1] : id.replace(/[^\w-]/g, '-');
+}
@@ -0,0 +1,97 @@
+// sync/daily.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { DateTime } from 'luxon';
+import { getOrCreateNotebookPath } from './folders';
+import { getPreviewId, isPreviewId, syncPreview } from './preview';
+import { logger } from '../logger';
+
+// The highlights in a daily note are kept between these markers, so later syncs can find and replace the section
+const SECTION_START_MARKER = '<!-- omnivore-daily-highlights -->';
+const SECTION_END_MARKER = '<!-- /omnivore-daily-highlights -->';
+
+export interface DailyNoteOptions {
+    titlePattern: string;
+    notebookPath: string;
+    heading: string;
+}
+
+export async function getDailyNoteOptions(): Promise<DailyNoteOptions> {
+    return {
+        titlePattern: (await joplin.settings.value('dailyNoteTitlePattern') as string).trim() || 'yyyy-MM-dd',
+        notebookPath: (await joplin.settings.value('dailyNoteNotebook') as string).trim() || 'Journal',
+        heading: (await joplin.settings.value('dailyNoteHeading') as string).trim()
+    };
+}
+
+// Find the daily note of a date (yyyy-MM-dd) by its title in the daily note notebook, or create it
+export async function getOrCreateDailyNote(date: string, options: DailyNoteOptions): Promise<any> {
+    const title = DateTime.fromISO(date).toFormat(options.titlePattern);
+    const folder = await getOrCreateNotebookPath(options.notebookPath);
+
+    let page = 1;
+    // A notebook that a preview would create has no notes yet
+    let hasMore = !isPreviewId(folder.id);
+    while (hasMore) {
+        const result = await joplin.data.get(['folders', folder.id, 'notes'], { fields: ['id', 'title'], page });
+        const existingNote = result.items.find(note => note.title === title);
+        if (existingNote) {
+            return existingNote;
+        }
+        hasMore = result.has_more;
+        page++;
+    }
+
+    if (syncPreview.active) {
+        return { id: getPreviewId(`${folder.id}/${title}`), title };
+    }
+    await logger.info(`Creating daily note "${title}" in ${options.notebookPath}`);
+    return await joplin.data.post(['notes'], null, { parent_id: folder.id, title, body: '' });
+}
+
+// Add highlights to the managed section of a daily note. An existing section is replaced by one holding its
+// previous content followed by the new highlights; otherwise the section is inserted below the heading,
+// which is added at the end of the note if the note doesn't have it yet.
+export async function writeDailyNoteSection(noteId: string, newContent: string, options: DailyNoteOptions) {
+    const note = await joplin.data.get(['notes', noteId], { fields: ['body'] });
+    const body: string = note.body || '';
+
+    const sectionStart = body.indexOf(SECTION_START_MARKER);
+    const sectionEnd = sectionStart >= 0 ? body.indexOf(SECTION_END_MARKER, sectionStart) : -1;
+    let updatedBody;
+
+    if (sectionStart >= 0 && sectionEnd >= 0) {
+        const previousContent = body.substring(sectionStart + SECTION_START_MARKER.length, sectionEnd).trim();
+        const content = previousContent ? `${previousContent}\n\n---\n\n${newContent}` : newContent;
+        updatedBody = body.substring(0, sectionStart) + buildSection(content) + body.substring(sectionEnd + SECTION_END_MARKER.length);
+    } else {
+        const headingIndex = options.heading ? findHeading(body, options.heading) : -1;
+        if (headingIndex >= 0) {
+            const lineEnd = body.indexOf('\n', headingIndex);
+            const insertAt = lineEnd >= 0 ? lineEnd + 1 : body.length;
+            updatedBody = `${body.substring(0, insertAt).replace(/\n*$/, '\n\n')}${buildSection(newContent)}\n${body.substring(insertAt).replace(/^\n*/, '\n')}`;
+        } else {
+            const heading = options.heading ? `${options.heading}\n\n` : '';
+            updatedBody = `${body.trim() ? `${body.replace(/\s+$/, '')}\n\n` : ''}${heading}${buildSection(newContent)}\n`;
+        }
+    }
+
+    await joplin.data.put(['notes', noteId], null, { body: updatedBody });
+}
+
+function buildSection(content: string): string {
+    return `${SECTION_START_MARKER}\n${content}\n${SECTION_END_MARKER}`;
+}
+
+// Offset of the line holding the heading, or -1
+function findHeading(body: string, heading: string): number {
+    let offset = 0;
+    for (const line of body.split('\n')) {
+        if (line.trim() === heading) {
+            return offset;
+        }
+        offset += line.length + 1;
+    }
+    return -1;
+}
@@ -0,0 +1,62 @@
+// sync/folders.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { setTimeout } from 'timers/promises';
+import { getPreviewId, syncPreview } from './preview';
+import { logger } from '../logger';
+
+export async function getOrCreateNotebook(notebookName: string, parentId?: string, maxRetries = 5): Promise<any> {
+    const sanitizedName = notebookName.trim();
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+        try {
+            const folders = await joplin.data.get(['folders']);
+            const existingFolder = folders.items.find(folder =>
+                folder.title.toLowerCase() === sanitizedName.toLowerCase() &&
+                (parentId ? folder.parent_id === parentId : true)
+            );
+
+            if (existingFolder) {
+                await logger.info(`Found existing folder: ${sanitizedName}`);
+                return existingFolder;
+            } else if (syncPreview.active) {
+                syncPreview.record('create', `Notebook "${sanitizedName}"`);
+                return { id: getPreviewId(`${parentId || ''}/${sanitizedName}`), title: sanitizedName, parent_id: parentId || '' };
+            } else if (attempt === 0) {
+                // Only try to create the folder on the first attempt
+                await logger.info(`Attempting to create folder: ${sanitizedName}`);
+                const newFolder = await joplin.data.post(['folders'], null, {
+                    title: sanitizedName,
+                    parent_id: parentId
+                });
+                // Don't return immediately, continue to next iteration to verify creation
+            } else {
+                await logger.warn(`Folder not found on attempt ${attempt + 1}: ${sanitizedName}`);
+            }
+        } catch (error) {
+            await logger.error(`Error on attempt ${attempt + 1} for folder ${sanitizedName}: ${error.message}`);
+        }
+
+        // Exponential backoff
+        const delay = Math.pow(2, attempt) * 1000; // 1s, 2s, 4s, 8s, 16s
+        await logger.info(`Waiting ${delay}ms before retry...`);
+        await setTimeout(delay);
+    }
+
+    throw new Error(`Failed to create or find folder ${sanitizedName} after ${maxRetries} attempts`);
+}
+
+// Resolve a notebook path such as "Journal/2026", creating the notebooks that don't exist yet
+export async function getOrCreateNotebookPath(path: string, parentId?: string): Promise<any> {
+    const names = path.split('/').map(name => name.trim()).filter(name => name);
+    if (names.length === 0) {
+        throw new Error(`Invalid notebook path: "${path}"`);
+    }
+
+    let folder;
+    for (const name of names) {
+        folder = await getOrCreateNotebook(name, folder ? folder.id : parentId);
+    }
+    return folder;
+}
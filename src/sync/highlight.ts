@@ -4,10 +4,22 @@
 import joplin from 'api';
 import TurndownService from 'turndown';
 import { DateTime } from 'luxon';
-import * as Mustache from 'mustache';
-import { Highlight } from '../types';
-import { OmnivoreClient } from '../api/omnivore';
+import { Highlight, HighlightState, DeletedHighlightAction, HighlightGrouping, RoutingRule } from '../types';
+import { CursorStore, OmnivoreClient } from '../api/omnivore';
+import { syncState } from './state';
+import { syncStatus } from './status';
+import { getPreviewId, isPreviewId, syncPreview } from './preview';
+import { findHighlightBlocks, wrapHighlight, extractAnnotation } from './markers';
+import { getCustomTemplate, renderTemplate } from './templates';
 import { logger } from '../logger';
+import { getOmnivoreUrl, getHostName, hashString } from '../utils';
+import { getTitleTemplate, renderHighlightNoteTitle } from './titles';
+import { DailyNoteOptions, getDailyNoteOptions, getOrCreateDailyNote, writeDailyNoteSection } from './daily';
+import { findRoutingRule, getRoutedFolderId, getRoutingRules, highlightToRoutable } from './routing';
+import { addNoteTags } from './tags';
+
+// Prefix of the IDs given to highlights read from an Omnivore export, which doesn't include highlight IDs
+export const EXPORT_HIGHLIGHT_ID_PREFIX = 'export-';
 
 const HIGHLIGHT_TEMPLATES = {
     default: `
@@ -44,27 +56,186 @@ const HIGHLIGHT_TEMPLATES = {
     `
 };
 
-export async function syncHighlights(client: OmnivoreClient, turndownService: TurndownService, lastSyncDate: string, syncPeriod: number, labels: string[], targetFolderId: string): Promise<{ newLastSyncDate: string, syncedHighlights: { [key: string]: string[] } }> {
-    const highlights = await client.getHighlights(lastSyncDate, syncPeriod, labels);
-    await logger.debug(`Retrieved ${highlights.length} highlights from Omnivore`);
+export async function syncHighlights(client: OmnivoreClient, turndownService: TurndownService, lastSyncDate: string, syncPeriod: number, labels: string[], query: string, targetFolderId: string): Promise<{ newLastSyncDate: string, created: number }> {
+    // Highlights written earlier are updated first, so that the pages written below aren't checked again
+    syncStatus.setPhase('Updating written highlights');
+    await refreshWrittenHighlights(client, turndownService, syncPeriod);
+
+    const result = { newLastSyncDate: lastSyncDate, created: 0 };
+    // Shared by all pages, so that a group spread over several pages is written to a single note
+    const noteCache: { [key: string]: any } = {};
+    let failed = false;
+
+    // As with articles, the stored cursor only moves past pages written without errors
+    const cursors: CursorStore = {
+        getCursor: (kind, searchQuery) => syncState.getCursor(kind, searchQuery),
+        setCursor: (kind, searchQuery, after) => {
+            if (!failed) {
+                syncState.setCursor(kind, searchQuery, after);
+            }
+        }
+    };
+
+    syncStatus.setPhase('Fetching highlights');
+    for await (const highlights of client.getHighlights(lastSyncDate, syncPeriod, labels, query, cursors)) {
+        syncStatus.addFetched('highlights', highlights.length);
+        await logger.debug(`Retrieved ${highlights.length} highlights from Omnivore`);
+
+        syncStatus.setPhase('Writing highlights');
+        const written = await writeHighlights(highlights, turndownService, result.newLastSyncDate, targetFolderId, noteCache);
+        if (!failed) {
+            result.newLastSyncDate = written.newLastSyncDate;
+        }
+        failed = failed || written.failed;
+        result.created += written.created;
+        syncStatus.setPhase('Fetching highlights');
+    }
+
+    return result;
+}
+
+// Re-render highlights already written to notes that changed in Omnivore (annotation, colour, ...), and
+// remove or strike through the ones deleted in Omnivore. Only highlights written within the sync period are checked,
+// and a highlight only counts as deleted if its item was found without it.
+async function refreshWrittenHighlights(client: OmnivoreClient, turndownService: TurndownService, syncPeriod: number) {
+    const oldestDate = new Date();
+    oldestDate.setDate(oldestDate.getDate() - syncPeriod);
+
+    const recordsByNote: { [noteId: string]: { [highlightId: string]: HighlightState[] } } = {};
+    for (const group of Object.values(syncState.getHighlights())) {
+        for (const [highlightId, record] of Object.entries(group)) {
+            // Highlights synced before IDs were written into the notes can't be found
+            if (!record.noteId || !record.itemId || record.deleted || new Date(record.syncedAt) < oldestDate) {
+                continue;
+            }
+            recordsByNote[record.noteId] = recordsByNote[record.noteId] || {};
+            recordsByNote[record.noteId][highlightId] = recordsByNote[record.noteId][highlightId] || [];
+            recordsByNote[record.noteId][highlightId].push(record);
+        }
+    }
+    if (Object.keys(recordsByNote).length === 0) {
+        return;
+    }
+
+    const itemIds = new Set<string>();
+    for (const records of Object.values(recordsByNote)) {
+        for (const highlightRecords of Object.values(records)) {
+            itemIds.add(highlightRecords[0].itemId);
+        }
+    }
+    const highlightsByItem = await client.getHighlightsByItem(Array.from(itemIds));
+    const remoteHighlights = new Map(Array.from(highlightsByItem.values()).flat().map(highlight => [highlight.id, highlight]));
+
+    const userTimezone = await joplin.settings.value('userTimezone') || 'local';
+    const omnivoreWebUrl = await joplin.settings.value('omnivoreWebUrl') || 'https://omnivore.app';
+    const deletedAction = await joplin.settings.value('deletedHighlightAction') as DeletedHighlightAction;
+    const highlightTemplate = await getHighlightTemplate();
+    let updatedCount = 0;
+    let deletedCount = 0;
+
+    for (const [noteId, records] of Object.entries(recordsByNote)) {
+        syncStatus.throwIfCancelled();
+        let note;
+        try {
+            note = await joplin.data.get(['notes', noteId], { fields: ['id', 'title', 'body'] });
+        } catch (error) {
+            continue;
+        }
+
+        let body: string = note.body || '';
+        // Replace from the end so that the offsets of the remaining blocks stay valid
+        const blocks = findHighlightBlocks(body).filter(block => records[block.id]).reverse();
+        for (const block of blocks) {
+            const highlightRecords = records[block.id];
+            const remote = remoteHighlights.get(block.id);
+
+            // An item missing from the response may have been deleted or just not found by the search,
+            // which says nothing about its highlights. Deleted items are handled by reconciling.
+            if (!remote && !highlightsByItem.has(highlightRecords[0].itemId)) {
+                continue;
+            }
+            if (!remote) {
+                if (deletedAction === DeletedHighlightAction.Remove) {
+                    const separatorMatch = body.substring(block.end).match(/^\s*\n---\n\s*/);
+                    body = body.substring(0, block.start) + body.substring(block.end + (separatorMatch ? separatorMatch[0].length : 0));
+                } else {
+                    body = body.substring(0, block.start) + wrapHighlight(block.id, strikeThrough(block.text.trim())) + body.substring(block.end);
+                }
+                highlightRecords.forEach(record => record.deleted = true);
+                deletedCount++;
+                await logger.info(`Highlight ${block.id} was deleted in Omnivore (${deletedAction})`);
+            } else if (remote.updatedAt !== highlightRecords[0].updatedAt) {
+                const highlightContent = renderHighlightContent(remote, highlightTemplate, userTimezone, turndownService, omnivoreWebUrl);
+                body = body.substring(0, block.start) + wrapHighlight(block.id, highlightContent) + body.substring(block.end);
+                for (const record of highlightRecords) {
+                    record.updatedAt = remote.updatedAt;
+                    record.annotation = remote.annotation ? decodeAndCleanText(remote.annotation).trim() : null;
+                    record.renderedAnnotation = extractAnnotation(highlightContent);
+                }
+                updatedCount++;
+                await logger.info(`Highlight ${block.id} was changed in Omnivore, updated it in note ${noteId}`);
+            }
+        }
+
+        if (body !== note.body && syncPreview.active) {
+            syncPreview.record('update', note.title, 'highlights changed or deleted in Omnivore');
+        } else if (body !== note.body) {
+            await joplin.data.put(['notes', noteId], null, { body });
+        }
+    }
+
+    await syncState.save();
+    await logger.debug(`Updated ${updatedCount} and handled ${deletedCount} deleted highlights already written to notes`);
+}
+
+function strikeThrough(text: string): string {
+    const struck = text.split('\n').map(line => {
+        const [, prefix, content] = line.match(/^(>\s?)?(.*)$/);
+        return content.trim() ? `${prefix || ''}~~${content}~~` : line;
+    });
+    return ['*(Deleted in Omnivore)*', '', ...struck].join('\n');
+}
 
+// Group highlights and append the ones not synced yet to their notes. Shared by the live sync and the export import.
+// noteCache holds the notes already created or found, by folder and group. failed is true if any group failed to be written.
+export async function writeHighlights(highlights: Highlight[], turndownService: TurndownService, lastSyncDate: string, targetFolderId: string, noteCache: { [key: string]: any } = {}): Promise<{ newLastSyncDate: string, created: number, failed: boolean }> {
     const userTimezone = await joplin.settings.value('userTimezone') || 'local';
-    let syncedHighlights: { [key: string]: string[] } = JSON.parse(await joplin.settings.value('syncedHighlights') || '{}');
-    const highlightGrouping = await joplin.settings.value('highlightGrouping');
+    const highlightGrouping = await joplin.settings.value('highlightGrouping') as HighlightGrouping;
+    const omnivoreWebUrl = await joplin.settings.value('omnivoreWebUrl') || 'https://omnivore.app';
+    const dailyNoteOptions = highlightGrouping === HighlightGrouping.DailyNote ? await getDailyNoteOptions() : null;
+    // Daily notes have their own notebook, so routing rules don't apply to them
+    const routingRules = dailyNoteOptions ? [] : await getRoutingRules();
+    const folderCache = new Map<string, string>();
 
     let newLastSyncDate = lastSyncDate;
     let newItemsCount = 0;
+    let failed = false;
 
     // Group highlights based on the chosen grouping method
     const groupedHighlights = groupHighlights(highlights, highlightGrouping, userTimezone);
 
-    // Cache to store notes we've already created or found during this sync
-    const noteCache: { [key: string]: any } = {};
-
     for (const [groupKey, groupHighlights] of Object.entries(groupedHighlights)) {
-    await syncGroupedHighlights(groupKey, groupHighlights, syncedHighlights, turndownService, userTimezone, highlightGrouping, targetFolderId, noteCache);
+        syncStatus.throwIfCancelled();
+        // A group whose highlights are routed to different notebooks gets a note in each of them
+        const routes = routingRules.length === 0
+            ? [{ folderId: targetFolderId, tags: null, highlights: groupHighlights }]
+            : await routeHighlights(groupHighlights, routingRules, targetFolderId, folderCache);
+        for (const route of routes) {
+            try {
+                const written = await syncGroupedHighlights(groupKey, route.highlights, turndownService, userTimezone, highlightGrouping, route.folderId, noteCache, omnivoreWebUrl, dailyNoteOptions, route.tags);
+                syncStatus.addWritten('highlights', written);
+                newItemsCount += written;
+            } catch (error) {
+                const note = noteCache[`${route.folderId}/${groupKey}`];
+                await syncStatus.recordItemError(error, { kind: 'highlights', title: getGroupTitle(groupKey, route.highlights, highlightGrouping), noteId: note?.id });
+                // The highlights that weren't written are tried again on the next sync
+                failed = true;
+            }
+        }
+        if (failed) {
+            continue;
+        }
 
-        newItemsCount += groupHighlights.length;
         const latestHighlightDate = groupHighlights.reduce((latest, highlight) => {
             return new Date(highlight.createdAt) > new Date(latest) ? highlight.createdAt : latest;
         }, lastSyncDate);
@@ -74,74 +245,171 @@ export async function syncHighlights(client: OmnivoreClient, turndownService: Tu
         }
     }
 
-    await joplin.settings.setValue('syncedHighlights', JSON.stringify(syncedHighlights));
+    await syncState.save();
     await logger.debug(`Synced ${newItemsCount} new highlights from Omnivore.`);
 
-    return { newLastSyncDate, syncedHighlights };
+    return { newLastSyncDate, created: newItemsCount, failed };
 }
 
-function groupHighlights(highlights: Highlight[], groupingType: string, userTimezone: string): { [key: string]: Highlight[] } {
-    const grouped: { [key: string]: Highlight[] } = {};
-
+// Split the highlights of a group by the notebook their routing rules send them to
+async function routeHighlights(highlights: Highlight[], rules: RoutingRule[], defaultFolderId: string, folderCache: Map<string, string>): Promise<{ folderId: string, tags: string[], highlights: Highlight[] }[]> {
+    const routes = new Map<string, { folderId: string, tags: string[], highlights: Highlight[] }>();
     for (const highlight of highlights) {
-        let key;
-        if (groupingType === 'byArticle') {
-            key = highlight.article.id;
-        } else { // byDate
-            key = DateTime.fromISO(highlight.createdAt).setZone(userTimezone).toFormat('yyyy-MM-dd');
+        const rule = findRoutingRule(rules, highlightToRoutable(highlight));
+        const folderId = await getRoutedFolderId(rule, defaultFolderId, folderCache);
+        if (!routes.has(folderId)) {
+            routes.set(folderId, { folderId, tags: [], highlights: [] });
+        }
+        const route = routes.get(folderId);
+        route.highlights.push(highlight);
+        for (const tag of (rule ? rule.tags : [])) {
+            if (!route.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+                route.tags.push(tag);
+            }
         }
+    }
+    return Array.from(routes.values());
+}
 
-        if (!grouped[key]) {
-            grouped[key] = [];
+function groupHighlights(highlights: Highlight[], groupingType: HighlightGrouping, userTimezone: string): { [key: string]: Highlight[] } {
+    const grouped: { [key: string]: Highlight[] } = {};
+
+    for (const highlight of highlights) {
+        for (const key of getGroupKeys(highlight, groupingType, userTimezone)) {
+            if (!grouped[key]) {
+                grouped[key] = [];
+            }
+            grouped[key].push(highlight);
         }
-        grouped[key].push(highlight);
     }
 
     return grouped;
 }
 
-async function syncGroupedHighlights(groupKey: string, highlights: Highlight[], syncedHighlights: { [key: string]: string[] }, turndownService: TurndownService, userTimezone: string, groupingType: string, targetFolderId: string, noteCache: { [key: string]: any }) {
-    const titlePrefix = await joplin.settings.value('highlightTitlePrefix');
-    let noteTitle;
+// A highlight belongs to one group, except with byLabel, where it belongs to the group of each label
+function getGroupKeys(highlight: Highlight, groupingType: HighlightGrouping, userTimezone: string): string[] {
+    const createdAt = DateTime.fromISO(highlight.createdAt).setZone(userTimezone);
+
+    switch (groupingType) {
+        case HighlightGrouping.ByArticle:
+            return [highlight.article.id];
+        case HighlightGrouping.ByWeek:
+            return [`week:${createdAt.toFormat("kkkk-'W'WW")}`];
+        case HighlightGrouping.ByMonth:
+            return [`month:${createdAt.toFormat('yyyy-MM')}`];
+        case HighlightGrouping.ByLabel: {
+            const labels = (highlight.article.labels || []).map(label => decodeAndCleanText(label).trim()).filter(label => label);
+            if (labels.length === 0) {
+                return ['label:Unlabeled'];
+            }
+            // Labels differing only in case share a note
+            const unique = new Map(labels.map(label => [label.toLowerCase(), label]));
+            return Array.from(unique.values()).map(label => `label:${label}`);
+        }
+        case HighlightGrouping.BySite:
+            return [`site:${getHostName(highlight.article.originalArticleUrl || highlight.article.url)}`];
+        case HighlightGrouping.ByAuthor:
+            return [`author:${highlight.article.author ? decodeAndCleanText(highlight.article.author).trim() : 'Unknown'}`];
+        default: // byDate and dailyNote
+            return [createdAt.toFormat('yyyy-MM-dd')];
+    }
+}
 
-    if (groupingType === 'byArticle') {
-        noteTitle = `${titlePrefix}${highlights[0].article.title}`;
-    } else { // byDate
-        noteTitle = `${titlePrefix}${groupKey}`;
+// The name of the group, which follows the prefix in the default note title
+function getGroupTitle(groupKey: string, highlights: Highlight[], groupingType: HighlightGrouping): string {
+    if (groupingType === HighlightGrouping.ByArticle) {
+        return highlights[0].article.title;
     }
+    if (groupingType === HighlightGrouping.ByDate || groupingType === HighlightGrouping.DailyNote) {
+        return groupKey;
+    }
+    return groupKey.slice(groupKey.indexOf(':') + 1);
+}
 
+// Append the highlights of one group that are not synced yet to the group's note. Returns the number of highlights written.
+// With dailyNoteOptions, the group is the date of a daily note and the highlights go to its managed section.
+// routedTags is null when no routing rules are set; otherwise the note must be in the target folder and gets these tags.
+async function syncGroupedHighlights(groupKey: string, highlights: Highlight[], turndownService: TurndownService, userTimezone: string, groupingType: HighlightGrouping, targetFolderId: string, noteCache: { [key: string]: any }, omnivoreWebUrl: string, dailyNoteOptions: DailyNoteOptions | null, routedTags: string[] | null): Promise<number> {
+    const cacheKey = `${targetFolderId}/${groupKey}`;
     let existingNote;
-    if (noteCache[groupKey]) {
-        existingNote = noteCache[groupKey];
+    if (noteCache[cacheKey]) {
+        existingNote = noteCache[cacheKey];
+    } else if (dailyNoteOptions) {
+        existingNote = await getOrCreateDailyNote(groupKey, dailyNoteOptions);
+        noteCache[cacheKey] = existingNote;
     } else {
-        existingNote = await getOrCreateHighlightNote(noteTitle, targetFolderId);
-        noteCache[groupKey] = existingNote;
+        const titlePrefix = await joplin.settings.value('highlightTitlePrefix');
+        const titleTemplate = await getTitleTemplate('highlightTitle');
+        const noteTitle = renderHighlightNoteTitle(titleTemplate, titlePrefix, getGroupTitle(groupKey, highlights, groupingType), highlights, userTimezone);
+        existingNote = await getOrCreateHighlightNote(noteTitle, targetFolderId, routedTags === null);
+        noteCache[cacheKey] = existingNote;
     }
 
-    if (groupingType === 'byArticle') {
+    if (groupingType === HighlightGrouping.ByArticle) {
         highlights.sort((a, b) => (a.highlightPositionPercent || 0) - (b.highlightPositionPercent || 0));
-    } else { // byDate
+    } else { // chronological, with the highlights of each article kept together
         highlights.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
         highlights = groupHighlightsByArticle(highlights);
     }
 
     const highlightTemplate = await getHighlightTemplate();
     let newContent = '';
+    const newHighlights: Highlight[] = [];
+    const renderedAnnotations = new Map<string, string | null>();
     for (const highlight of highlights) {
-        if (!syncedHighlights[groupKey]) {
-            syncedHighlights[groupKey] = [];
-        }
-
-        if (!syncedHighlights[groupKey].includes(highlight.id)) {
-            const highlightContent = renderHighlightContent(highlight, highlightTemplate, userTimezone, turndownService);
-            newContent += highlightContent + '\n\n---\n\n';
-            syncedHighlights[groupKey].push(highlight.id);
+        const quoteHash = getQuoteHash(highlight);
+        if (syncState.isHighlightSynced(groupKey, highlight.id)) {
+            syncState.setHighlightQuoteHash(groupKey, highlight.id, quoteHash);
+        } else if (!isSyncedUnderOtherId(highlight, quoteHash)) {
+            const highlightContent = renderHighlightContent(highlight, highlightTemplate, userTimezone, turndownService, omnivoreWebUrl);
+            newContent += wrapHighlight(highlight.id, highlightContent) + '\n\n---\n\n';
+            newHighlights.push(highlight);
+            renderedAnnotations.set(highlight.id, extractAnnotation(highlightContent));
         }
     }
 
-    if (newContent) {
+    if (newContent && syncPreview.active) {
+        syncPreview.record(isPreviewId(existingNote.id) ? 'create' : 'append', existingNote.title, `${newHighlights.length} highlights`);
+    } else if (newContent && dailyNoteOptions) {
+        await writeDailyNoteSection(existingNote.id, newContent.trim(), dailyNoteOptions);
+    } else if (newContent) {
         await appendHighlightsToNote(existingNote.id, newContent.trim());
     }
+    if (newContent && routedTags && routedTags.length > 0 && !syncPreview.active) {
+        await addNoteTags(existingNote.id, routedTags);
+    }
+
+    // Only record the highlights once they are in the note, so a failed render doesn't lose them
+    for (const highlight of newHighlights) {
+        syncState.setHighlight(groupKey, highlight.id, {
+            noteId: existingNote.id,
+            itemId: highlight.article.id,
+            updatedAt: highlight.updatedAt,
+            annotation: highlight.annotation ? decodeAndCleanText(highlight.annotation).trim() : null,
+            renderedAnnotation: renderedAnnotations.get(highlight.id),
+            quoteHash: getQuoteHash(highlight),
+            syncedAt: new Date().toISOString()
+        });
+    }
+    return newHighlights.length;
+}
+
+// Highlights read from an Omnivore export have IDs made up by the import, so they are matched with
+// highlights synced from the API, and the other way round, by article and quote
+function isSyncedUnderOtherId(highlight: Highlight, quoteHash: string): boolean {
+    const isExported = (highlightId: string) => highlightId.startsWith(EXPORT_HIGHLIGHT_ID_PREFIX);
+    return syncState.getHighlightIdsByQuote(quoteHash)
+        .some(highlightId => highlightId !== highlight.id && (isExported(highlightId) || isExported(highlight.id)));
+}
+
+// Quotes are compared without formatting differences between the API and the export
+export function getQuoteHash(highlight: Highlight): string {
+    const quote = decodeAndCleanText(highlight.quote || '')
+        .replace(/[*_`>]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+    return hashString(`${highlight.article.id}\n${quote}`);
 }
 
 function groupHighlightsByArticle(highlights: Highlight[]): Highlight[] {
@@ -163,19 +431,31 @@ async function appendHighlightsToNote(noteId: string, newContent: string) {
     await joplin.data.put(['notes', noteId], null, { body: updatedBody });
 }
 
-async function getOrCreateHighlightNote(title: string, targetFolderId: string): Promise<any> {
+// With adoptFromOtherFolders, a note with the title in another notebook is moved to the target folder.
+// Without it (when routing rules are set), only notes in the target folder are used, since notes with the
+// same title in other notebooks belong to other routes.
+async function getOrCreateHighlightNote(title: string, targetFolderId: string, adoptFromOtherFolders: boolean): Promise<any> {
     const searchResult = await joplin.data.get(['search'], { query: `"${title}"`, fields: ['id', 'title', 'body', 'parent_id'] });
-
-    if (searchResult && Array.isArray(searchResult.items) && searchResult.items.length > 0) {
-        // If multiple notes exist for the same day, merge them
-        if (searchResult.items.length > 1) {
-            return await mergeHighlightNotes(searchResult.items, targetFolderId);
+    // The search also matches notes that only mention the title in their body
+    const notes = searchResult && Array.isArray(searchResult.items)
+        ? searchResult.items.filter(note => note.title.toLowerCase() === title.toLowerCase() &&
+            (adoptFromOtherFolders || note.parent_id === targetFolderId))
+        : [];
+
+    if (notes.length > 0) {
+        // If multiple notes exist for the same group, merge them
+        if (notes.length > 1) {
+            return await mergeHighlightNotes(notes, targetFolderId);
         }
         // If the note exists but is in a different folder, move it to the correct folder
-        if (searchResult.items[0].parent_id !== targetFolderId) {
-            await joplin.data.put(['notes', searchResult.items[0].id], null, { parent_id: targetFolderId });
+        if (notes[0].parent_id !== targetFolderId && syncPreview.active) {
+            syncPreview.record('move', notes[0].title, 'to the highlight notebook');
+        } else if (notes[0].parent_id !== targetFolderId) {
+            await joplin.data.put(['notes', notes[0].id], null, { parent_id: targetFolderId });
         }
-        return searchResult.items[0];
+        return notes[0];
+    } else if (syncPreview.active) {
+        return { id: getPreviewId(`${targetFolderId}/${title}`), title, body: '', parent_id: targetFolderId };
     } else {
         return await joplin.data.post(['notes'], null, {
             parent_id: targetFolderId,
@@ -188,6 +468,10 @@ async function getOrCreateHighlightNote(title: string, targetFolderId: string):
 async function mergeHighlightNotes(notes: any[], targetFolderId: string): Promise<any> {
     const mergedBody = notes.map(note => note.body).join('\n\n---\n\n');
     const firstNote = notes[0];
+    if (syncPreview.active) {
+        syncPreview.record('merge', firstNote.title, `${notes.length} notes into one`);
+        return firstNote;
+    }
     await joplin.data.put(['notes', firstNote.id], null, {
         body: mergedBody,
         title: firstNote.title,
@@ -197,6 +481,7 @@ async function mergeHighlightNotes(notes: any[], targetFolderId: string): Promis
     // Delete other notes
     for (let i = 1; i < notes.length; i++) {
         await joplin.data.delete(['notes', notes[i].id]);
+        syncState.replaceHighlightNote(notes[i].id, firstNote.id);
     }
 
     await logger.debug(`Merged ${notes.length} notes for ${firstNote.title}`);
@@ -209,9 +494,6 @@ async function appendHighlightToNote(noteId: string, newHighlightContent: string
     let highlights = note.body ? note.body.split('\n\n---\n\n').filter(h => h.trim() !== '') : [];
     await logger.debug(`Existing highlights in note: ${highlights.length}`);
 
-    // Decode and clean HTML entities in the new highlight content
-    newHighlightContent = decodeAndCleanText(newHighlightContent);
-
     // Extract creation time and a portion of the content for comparison
     const newHighlightCreationTime = newHighlightContent.match(/\((\d{4}-\d{2}-\d{2} \d{2}:\d{2})\)/)?.[1] || '';
     const newHighlightFirstLine = newHighlightContent.split('\n')[0];
@@ -247,18 +529,15 @@ async function appendHighlightToNote(noteId: string, newHighlightContent: string
 
 async function getHighlightTemplate(): Promise < string > {
     const choice = await joplin.settings.value('highlightTemplateChoice');
+    if (choice === 'custom') {
+        return await getCustomTemplate('highlight');
+    }
     return HIGHLIGHT_TEMPLATES[choice].trim();
 }
 
-function renderHighlightContent(highlight: Highlight, template: string, userTimezone: string, turndownService: TurndownService): string {
-    let omnivoreUrl = 'https://omnivore.app/me/';
-    if (highlight.article.slug) {
-        omnivoreUrl += highlight.article.slug;
-    } else if (highlight.article.id) {
-        omnivoreUrl += highlight.article.id;
-    } else {
-        omnivoreUrl += highlight.id;
-    }
+// The Markdown of a highlight, from the highlight template
+export function renderHighlightContent(highlight: Highlight, template: string, userTimezone: string, turndownService: TurndownService, omnivoreWebUrl: string): string {
+    const omnivoreUrl = getOmnivoreUrl(omnivoreWebUrl, highlight.article.slug || highlight.article.id || highlight.id);
 
     // Decode and clean all text fields before passing to Mustache
     const cleanTitle = decodeAndCleanText(highlight.article.title);
@@ -267,32 +546,52 @@ function renderHighlightContent(highlight: Highlight, template: string, userTime
     const cleanOriginalUrl = decodeAndCleanText(highlight.article.originalArticleUrl || highlight.article.url);
 
     // Clean and format the quote
-    const cleanQuote = decodeAndCleanText(highlight.quote)
-        .split('\n')
-        .map(line => line.trim() ? `> ${line}` : '>')
-        .join('\n');
+    const cleanQuote = formatAsQuote(decodeAndCleanText(highlight.quote));
 
     // Clean and format the annotation (if it exists)
     const cleanAnnotation = highlight.annotation
-        ? decodeAndCleanText(highlight.annotation)
-            .split('\n')
-            .map(line => line.trim() ? `> ${line}` : '>')
-            .join('\n')
+        ? formatAsQuote(decodeAndCleanText(highlight.annotation))
         : null;
 
-    const renderResult = decodeAndCleanText(Mustache.render(template, {
+    const formatDate = (date: string | null | undefined) => date ?
+        DateTime.fromISO(date).setZone(userTimezone).toFormat('yyyy-MM-dd HH:mm') : 'Unknown';
+    const highlightLabels = (highlight.labels || []).map(label => ({ name: decodeAndCleanText(label.name), color: label.color }));
+    const articleLabels = (highlight.article.labels || []).map(name => ({ name: decodeAndCleanText(name) }));
+
+    // See HIGHLIGHT_TEMPLATE_VARIABLES for the documentation of each variable.
+    // The values are decoded already, so they are not escaped again; decoding the result would decode them twice.
+    const renderResult = renderTemplate(template, {
+        id: highlight.id,
+        shortId: highlight.shortId,
+        type: highlight.type,
+        quote: cleanQuote,
+        quoteText: decodeAndCleanText(highlight.quote || ''),
+        annotation: cleanAnnotation,
+        annotationText: highlight.annotation ? decodeAndCleanText(highlight.annotation) : null,
+        patch: highlight.patch,
+        color: highlight.color,
+        positionPercent: highlight.highlightPositionPercent !== null && highlight.highlightPositionPercent !== undefined ?
+            Math.round(highlight.highlightPositionPercent) : null,
+        positionAnchorIndex: highlight.highlightPositionAnchorIndex,
+        createdAt: formatDate(highlight.createdAt),
+        updatedAt: formatDate(highlight.updatedAt),
+        labels: highlightLabels,
+        labelNames: highlightLabels.map(label => label.name).join(', '),
         article: {
+            id: highlight.article.id,
             title: cleanTitle,
             author: cleanAuthor,
-            publishedAt: highlight.article.publishedAt ?
-                DateTime.fromISO(highlight.article.publishedAt).setZone(userTimezone).toFormat('yyyy-MM-dd HH:mm') : 'Unknown',
+            siteName: highlight.article.siteName ? decodeAndCleanText(highlight.article.siteName) : null,
+            url: highlight.article.url,
+            publishedAt: formatDate(highlight.article.publishedAt),
+            savedAt: formatDate(highlight.article.savedAt),
             omnivoreUrl: cleanOmnivoreUrl,
-            originalArticleUrl: cleanOriginalUrl
-        },
-        quote: cleanQuote,
-        annotation: cleanAnnotation,
-        createdAt: DateTime.fromISO(highlight.createdAt).setZone(userTimezone).toFormat('yyyy-MM-dd HH:mm')
-    }));
+            originalArticleUrl: cleanOriginalUrl,
+            slug: highlight.article.slug,
+            labels: articleLabels,
+            labelNames: articleLabels.map(label => label.name).join(', ')
+        }
+    }, 'highlight', false);
 
     return renderResult;
 }
@@ -309,6 +608,9 @@ async function getOrCreateNotebook(notebookName: string): Promise < any > {
 
 export async function cleanupHighlightNotes() {
     const titlePrefix = await joplin.settings.value('highlightTitlePrefix');
+    const highlightGrouping = await joplin.settings.value('highlightGrouping') as HighlightGrouping;
+    // With routing rules, notes of the same group in different notebooks are kept apart
+    const mergeAcrossFolders = (await getRoutingRules()).length === 0;
     const searchQuery = `${titlePrefix}*`;
     const searchResult = await joplin.data.get(['search'], { query: searchQuery, fields: ['id', 'title', 'body', 'parent_id'] });
     if (!searchResult || !Array.isArray(searchResult.items)) {
@@ -316,18 +618,24 @@ export async function cleanupHighlightNotes() {
         return;
     }
 
-    const highlightNotes = searchResult.items;
-    const notesByDate: { [key: string]: any[] } = {};
+    const highlightNotes = searchResult.items.filter(note => note.title.startsWith(titlePrefix));
+    const notesByGroup: { [key: string]: any[] } = {};
 
     for (const note of highlightNotes) {
-        const datePart = note.title.replace(`${titlePrefix}`, '');
-        if (!notesByDate[datePart]) {
-            notesByDate[datePart] = [];
+        let mergeKey = getMergeKey(note.title.slice(titlePrefix.length), highlightGrouping);
+        if (mergeKey === null) {
+            continue;
         }
-        notesByDate[datePart].push(note);
+        if (!mergeAcrossFolders) {
+            mergeKey = `${note.parent_id}/${mergeKey}`;
+        }
+        if (!notesByGroup[mergeKey]) {
+            notesByGroup[mergeKey] = [];
+        }
+        notesByGroup[mergeKey].push(note);
     }
 
-    for (const [date, notes] of Object.entries(notesByDate)) {
+    for (const [group, notes] of Object.entries(notesByGroup)) {
         if (notes.length > 1) {
             // Get the parent_id of the first note to use as the target folder
             const targetFolderId = notes[0].parent_id;
@@ -336,6 +644,36 @@ export async function cleanupHighlightNotes() {
     }
 }
 
+// Notes with the same merge key hold the same group and are merged. Returns null for titles that don't belong
+// to the current grouping mode, so that notes written with another mode are left alone.
+function getMergeKey(groupTitle: string, groupingType: HighlightGrouping): string | null {
+    switch (groupingType) {
+        case HighlightGrouping.ByDate:
+            return /^\d{4}-\d{2}-\d{2}$/.test(groupTitle) ? groupTitle : null;
+        case HighlightGrouping.ByWeek:
+            return /^\d{4}-W\d{2}$/.test(groupTitle) ? groupTitle : null;
+        case HighlightGrouping.ByMonth:
+            return /^\d{4}-\d{2}$/.test(groupTitle) ? groupTitle : null;
+        case HighlightGrouping.ByLabel:
+        case HighlightGrouping.BySite:
+        case HighlightGrouping.ByAuthor:
+            // Labels, host names and author names are matched regardless of case
+            return groupTitle.trim().toLowerCase();
+        case HighlightGrouping.DailyNote:
+            // Daily notes are not highlight notes
+            return null;
+        default: // byArticle
+            return groupTitle;
+    }
+}
+
+export function formatAsQuote(text: string): string {
+    return text
+        .split('\n')
+        .map(line => line.trim() ? `> ${line}` : '>')
+        .join('\n');
+}
+
 export function decodeAndCleanText(text: string): string {
     const htmlEntities: { [key: string]: string } = {
         '&amp;': '&',
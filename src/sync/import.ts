@@ -0,0 +1,223 @@
+// sync/import.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import TurndownService from 'turndown';
+import * as JSZip from 'jszip';
+import { Article, Highlight, SyncType } from '../types';
+import { writeArticles } from './article';
+import { EXPORT_HIGHLIGHT_ID_PREFIX, writeHighlights } from './highlight';
+import { logger } from '../logger';
+import { hashString } from '../utils';
+
+// Entry of a metadata_*.json file in the Omnivore data export
+interface ExportMetadata {
+    id: string;
+    slug: string;
+    title: string;
+    description?: string;
+    author?: string;
+    url: string;
+    state?: string;
+    readingProgress?: number;
+    thumbnail?: string;
+    labels?: string[];
+    savedAt: string;
+    updatedAt?: string;
+    publishedAt?: string;
+}
+
+// Read access to the files of an export, either in a ZIP archive or in an unpacked directory.
+// Paths are relative to the export root and always use '/' as the separator.
+interface ExportSource {
+    files: string[];
+    readText(path: string): Promise<string | null>;
+}
+
+export interface ImportOptions {
+    syncType: SyncType;
+    articleLabels: string[];
+    highlightLabels: string[];
+    articleFolderId: string;
+    highlightFolderId: string;
+}
+
+export async function importOmnivoreExport(exportPath: string, turndownService: TurndownService, options: ImportOptions): Promise<{ articles: number, highlights: number }> {
+    const source = /\.zip$/i.test(exportPath) ? await openZipSource(exportPath) : await openDirectorySource(exportPath);
+
+    const metadataFiles = source.files.filter(file => /(^|\/)metadata_[^/]*\.json$/.test(file));
+    if (metadataFiles.length === 0) {
+        throw new Error(`No metadata_*.json files found in ${exportPath}. Is this an Omnivore export?`);
+    }
+    await logger.debug(`Found ${metadataFiles.length} metadata files in ${exportPath}`);
+
+    const articles: Article[] = [];
+    const highlights: Highlight[] = [];
+
+    for (const metadataFile of metadataFiles) {
+        const rootDir = metadataFile.substring(0, metadataFile.lastIndexOf('/') + 1);
+        const entries: ExportMetadata[] = JSON.parse(await source.readText(metadataFile) || '[]');
+
+        for (const entry of entries) {
+            const content = await source.readText(`${rootDir}content/${entry.slug}.html`);
+            if (content === null) {
+                await logger.warn(`No content found in export for: ${entry.title}`);
+            }
+            const article = toArticle(entry, content || '');
+            articles.push(article);
+
+            const highlightMarkdown = await source.readText(`${rootDir}highlights/${entry.slug}.md`);
+            if (highlightMarkdown) {
+                const articleHighlights = parseHighlightMarkdown(highlightMarkdown, article);
+                article.highlights = articleHighlights;
+                highlights.push(...articleHighlights);
+            }
+        }
+    }
+    await logger.info(`Read ${articles.length} articles and ${highlights.length} highlights from the export`);
+
+    let articleCount = 0;
+    let highlightCount = 0;
+
+    if (options.syncType === SyncType.All || options.syncType === SyncType.Articles) {
+        const filteredArticles = articles.filter(article => hasAnyLabel(article, options.articleLabels));
+        const articleResult = await writeArticles(filteredArticles, turndownService, '', options.articleFolderId);
+        articleCount = articleResult.created;
+    }
+
+    if (options.syncType === SyncType.All || options.syncType === SyncType.Highlights) {
+        const articlesById = new Map(articles.map(article => [article.id, article]));
+        const filteredHighlights = highlights.filter(highlight => hasAnyLabel(articlesById.get(highlight.article.id), options.highlightLabels));
+        const highlightResult = await writeHighlights(filteredHighlights, turndownService, '', options.highlightFolderId);
+        highlightCount = highlightResult.created;
+    }
+
+    await logger.info(`Imported ${articleCount} articles and ${highlightCount} highlights from ${exportPath}`);
+    return { articles: articleCount, highlights: highlightCount };
+}
+
+async function openZipSource(zipPath: string): Promise<ExportSource> {
+    const fs = joplin.require('fs-extra');
+    const zip = await JSZip.loadAsync(await fs.readFile(zipPath));
+    const files = Object.keys(zip.files).filter(name => !zip.files[name].dir);
+
+    return {
+        files,
+        readText: async (path: string) => {
+            const file = zip.file(path);
+            return file ? await file.async('string') : null;
+        }
+    };
+}
+
+async function openDirectorySource(dirPath: string): Promise<ExportSource> {
+    const fs = joplin.require('fs-extra');
+    const rootDir = dirPath.replace(/[\\/]+$/, '');
+    const files: string[] = [];
+
+    const walk = async (relativeDir: string) => {
+        const entries = await fs.readdir(`${rootDir}/${relativeDir}`, { withFileTypes: true });
+        for (const entry of entries) {
+            const relativePath = `${relativeDir}${entry.name}`;
+            if (entry.isDirectory()) {
+                await walk(`${relativePath}/`);
+            } else {
+                files.push(relativePath);
+            }
+        }
+    };
+    await walk('');
+
+    return {
+        files,
+        readText: async (path: string) => {
+            if (!files.includes(path)) {
+                return null;
+            }
+            return await fs.readFile(`${rootDir}/${path}`, 'utf8');
+        }
+    };
+}
+
+function toArticle(entry: ExportMetadata, content: string): Article {
+    return {
+        id: entry.id,
+        title: entry.title,
+        siteName: null,
+        originalArticleUrl: entry.url,
+        author: entry.author || null,
+        description: entry.description || null,
+        slug: entry.slug,
+        labels: (entry.labels || []).map(name => ({ name, color: null, description: null })),
+        highlights: null,
+        updatedAt: entry.updatedAt || null,
+        savedAt: entry.savedAt,
+        createdAt: entry.savedAt,
+        pageType: 'ARTICLE',
+        content,
+        publishedAt: entry.publishedAt || null,
+        url: entry.url,
+        image: entry.thumbnail || null,
+        readAt: null,
+        wordsCount: null,
+        readingProgressPercent: entry.readingProgress || 0,
+        isArchived: entry.state === 'Archived',
+        archivedAt: null,
+        contentReader: null
+    } as Article;
+}
+
+// The export writes each highlight as "> quote", followed by optional "#label" and annotation paragraphs.
+// Highlight IDs are not exported, so a stable ID is derived from the article ID and the quote. Highlights already
+// synced from the API are recognized by their quote when they are written (see isSyncedUnderOtherId).
+function parseHighlightMarkdown(markdown: string, article: Article): Highlight[] {
+    const parsed: { quote: string, annotation: string[] }[] = [];
+
+    for (const paragraph of markdown.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)) {
+        if (paragraph.startsWith('>')) {
+            const quote = paragraph.split('\n').map(line => line.replace(/^>\s?/, '')).join('\n').trim();
+            parsed.push({ quote, annotation: [] });
+        } else if (parsed.length > 0 && !/^(#\S+\s*)+$/.test(paragraph)) {
+            parsed[parsed.length - 1].annotation.push(paragraph);
+        }
+    }
+
+    const createdAt = article.updatedAt || article.savedAt;
+    return parsed.map((item, index) => ({
+        id: `${EXPORT_HIGHLIGHT_ID_PREFIX}${hashString(`${article.id}\n${item.quote}`)}`,
+        quote: item.quote,
+        annotation: item.annotation.length > 0 ? item.annotation.join('\n\n') : null,
+        patch: null,
+        updatedAt: createdAt,
+        labels: null,
+        type: 'HIGHLIGHT',
+        highlightPositionPercent: (index / parsed.length) * 100,
+        color: null,
+        highlightPositionAnchorIndex: index,
+        createdAt,
+        article: {
+            id: article.id,
+            title: article.title,
+            url: article.url,
+            originalArticleUrl: article.originalArticleUrl,
+            savedAt: article.savedAt,
+            author: article.author,
+            publishedAt: article.publishedAt,
+            slug: article.slug,
+            pageType: article.pageType,
+            labels: (article.labels || []).map(label => label.name)
+        }
+    } as Highlight));
+}
+
+// Same rules as the label settings in a live sync: labels starting with "-" are excluded, any other label is enough
+function hasAnyLabel(article: Article | undefined, labels: string[]): boolean {
+    const articleLabels = article ? (article.labels || []).map(label => label.name.toLowerCase()) : [];
+    const wanted = labels.filter(label => !label.startsWith('-')).map(label => label.toLowerCase());
+    const excluded = labels.filter(label => label.startsWith('-')).map(label => label.slice(1).trim().toLowerCase());
+
+    if (articleLabels.some(label => excluded.includes(label))) {
+        return false;
+    }
+    return wanted.length === 0 || (!!article && articleLabels.some(label => wanted.includes(label)));
+}
@@ -0,0 +1,240 @@
+// sync/inline.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { Highlight } from '../types';
+import { OmnivoreClient } from '../api/omnivore';
+import { decodeAndCleanText } from './highlight';
+import { syncState } from './state';
+import { syncPreview } from './preview';
+import { syncStatus } from './status';
+import { hashString } from '../utils';
+import { logger } from '../logger';
+import { withDeletedTime } from '../version';
+
+// Characters that turndown may escape with a backslash
+const ESCAPABLE_CHARS = '\\`*_{}[]()#+-.!<>=~|';
+// Markup that may sit between two words of a quote: whitespace, emphasis, the parts of a link,
+// and the block markup of the next line when the quote spans several paragraphs or list items
+const WORD_SEPARATOR = '(?:[\\s*_~]|\\[|\\]\\([^)\\n]*\\)|\\n\\s*(?:>\\s*)*(?:#{1,6}|[-+]|\\d+\\.)\\s)+';
+// Block markup at the start of a line, kept outside the ==mark==
+const BLOCK_PREFIX = /^(\s*(?:>\s*)*(?:#{1,6}\s+|[-*+]\s+|\d+\.\s+)?)/;
+
+// The fields used for marking, so both synced highlights and the highlights of a fetched article can be marked
+type MarkableHighlight = Pick<Highlight, 'id' | 'quote' | 'annotation' | 'patch' | 'highlightPositionPercent' | 'shortId'>;
+
+interface TextRange {
+    start: number;
+    end: number;
+}
+
+// Wrap the quote of each highlight in ==mark== syntax and add its annotation as a footnote.
+// Highlights whose quote can't be found are left out of markedIds, so they are tried again on the next sync.
+export function markHighlights(markdown: string, highlights: MarkableHighlight[]): { markdown: string, markedIds: string[] } {
+    // Text that is already marked is never marked again
+    const taken: TextRange[] = [];
+    const existingMarks = /==[^=\n]+==/g;
+    let existing;
+    while ((existing = existingMarks.exec(markdown)) !== null) {
+        taken.push({ start: existing.index, end: existing.index + existing[0].length });
+    }
+
+    const matches: { highlight: MarkableHighlight, range: TextRange }[] = [];
+    const sorted = highlights
+        .filter(highlight => highlight.quote)
+        .sort((a, b) => (a.highlightPositionPercent || 0) - (b.highlightPositionPercent || 0));
+    for (const highlight of sorted) {
+        const range = findQuote(markdown, highlight, taken);
+        if (range) {
+            taken.push(range);
+            matches.push({ highlight, range });
+        }
+    }
+
+    // Replace from the end so that earlier offsets stay valid
+    let result = markdown;
+    const footnotes: string[] = [];
+    for (const { highlight, range } of matches.sort((a, b) => b.range.start - a.range.start)) {
+        const label = getFootnoteLabel(highlight);
+        const annotation = highlight.annotation ? decodeAndCleanText(highlight.annotation).trim() : '';
+        const marked = wrapInMarks(result.slice(range.start, range.end)) + (annotation ? `[^${label}]` : '');
+        result = result.slice(0, range.start) + marked + result.slice(range.end);
+        if (annotation) {
+            footnotes.unshift(`[^${label}]: ${annotation.split('\n').join('\n    ')}`);
+        }
+    }
+    if (footnotes.length > 0) {
+        result = `${result.replace(/\s+$/, '')}\n\n${footnotes.join('\n\n')}\n`;
+    }
+
+    return { markdown: result, markedIds: matches.map(match => match.highlight.id) };
+}
+
+// Mark the highlights added since the article note was written. Only articles saved within the highlight
+// sync period are checked, the same window in which highlights are synced to highlight notes.
+export async function remarkArticleNotes(client: OmnivoreClient, syncPeriod: number): Promise<number> {
+    const oldestDate = new Date();
+    oldestDate.setDate(oldestDate.getDate() - syncPeriod);
+
+    const itemIds = Object.entries(syncState.getArticles())
+        .filter(([, articleState]) => articleState.noteId && !articleState.omnivoreState && new Date(articleState.savedAt) >= oldestDate)
+        .map(([itemId]) => itemId);
+    if (itemIds.length === 0) {
+        return 0;
+    }
+
+    const highlightsByItem: { [itemId: string]: Highlight[] } = {};
+    for (const highlight of await client.getItemHighlights(itemIds)) {
+        (highlightsByItem[highlight.article.id] = highlightsByItem[highlight.article.id] || []).push(highlight);
+    }
+
+    let remarkedCount = 0;
+    for (const [itemId, highlights] of Object.entries(highlightsByItem)) {
+        syncStatus.throwIfCancelled();
+        const articleState = syncState.getArticle(itemId);
+        const markedIds = articleState.markedHighlightIds || [];
+        const newHighlights = highlights.filter(highlight => highlight.quote && !markedIds.includes(highlight.id));
+        if (newHighlights.length === 0) {
+            continue;
+        }
+
+        let note;
+        try {
+            note = await joplin.data.get(['notes', articleState.noteId], { fields: await withDeletedTime(['id', 'body']) });
+        } catch (error) {
+            note = null;
+        }
+        if (!note || note.deleted_time) {
+            continue;
+        }
+
+        const result = markHighlights(note.body, newHighlights);
+        if (result.markedIds.length === 0) {
+            continue;
+        }
+
+        if (syncPreview.active) {
+            syncPreview.record('update', articleState.title, `${result.markedIds.length} highlights marked`);
+            remarkedCount++;
+            continue;
+        }
+        await joplin.data.put(['notes', articleState.noteId], null, { body: result.markdown });
+        // Marking is not a local edit, so a note that was unchanged stays eligible for updates from Omnivore
+        if (hashString(note.body) === articleState.bodyHash) {
+            articleState.bodyHash = hashString(result.markdown);
+        }
+        articleState.markedHighlightIds = [...markedIds, ...result.markedIds];
+        await logger.debug(`Marked ${result.markedIds.length} new highlights in "${articleState.title}"`);
+        remarkedCount++;
+    }
+
+    await syncState.save();
+    await logger.info(`Marked new highlights in ${remarkedCount} article notes`);
+    return remarkedCount;
+}
+
+// Find the quote of a highlight in the Markdown. When the quote occurs more than once, the occurrence
+// preceded by the context recorded in the highlight's patch wins, then the one closest to its position.
+function findQuote(markdown: string, highlight: MarkableHighlight, taken: TextRange[]): TextRange | null {
+    const words = decodeAndCleanText(highlight.quote).trim().split(/\s+/).filter(word => word);
+    if (words.length === 0) {
+        return null;
+    }
+
+    const pattern = new RegExp(words.map(toWordPattern).join(WORD_SEPARATOR), 'g');
+    const candidates: TextRange[] = [];
+    let match;
+    while ((match = pattern.exec(markdown)) !== null) {
+        const range = fitToLinks(markdown, { start: match.index, end: match.index + match[0].length });
+        if (!taken.some(other => range.start < other.end && other.start < range.end)) {
+            candidates.push(range);
+        }
+        pattern.lastIndex = match.index + 1;
+    }
+    if (candidates.length <= 1) {
+        return candidates[0] || null;
+    }
+
+    const context = toComparable(getPatchPrefix(highlight.patch)).slice(-16);
+    const position = (highlight.highlightPositionPercent || 0) / 100;
+    const score = (range: TextRange) => {
+        const precededByContext = !!context && toComparable(markdown.slice(Math.max(0, range.start - 300), range.start)).endsWith(context);
+        return (precededByContext ? 0 : 1) + Math.abs(range.start / markdown.length - position);
+    };
+    return candidates.sort((a, b) => score(a) - score(b))[0];
+}
+
+function toWordPattern(word: string): string {
+    return word.split('').map(char => {
+        const escaped = char.replace(/[.*+?^${}()|[\]\\\/-]/g, '\\$&');
+        return ESCAPABLE_CHARS.includes(char) ? `\\\\?${escaped}` : escaped;
+    }).join('');
+}
+
+// Keep links whole: a match that ends inside the text of a link is extended over its URL,
+// and one that starts inside it is moved back to the opening bracket
+function fitToLinks(markdown: string, range: TextRange): TextRange {
+    const text = markdown.slice(range.start, range.end);
+    const opened = (text.match(/(^|[^\\])\[/g) || []).length;
+    const closed = (text.match(/\]\(/g) || []).length;
+    let { start, end } = range;
+
+    if (opened > closed) {
+        const link = markdown.slice(end).match(/^[^\]\n]*\]\([^)\n]*\)/);
+        if (link) {
+            end += link[0].length;
+        }
+    } else if (closed > opened) {
+        const bracket = markdown.lastIndexOf('[', start);
+        if (bracket >= 0 && !markdown.slice(bracket, start).includes('\n')) {
+            start = bracket;
+        }
+    }
+    return { start, end };
+}
+
+// ==mark== doesn't span lines, so each line of a multi-line quote is marked on its own
+function wrapInMarks(text: string): string {
+    return text.split('\n').map((line, index) => {
+        const prefix = index > 0 ? line.match(BLOCK_PREFIX)[1] : '';
+        const content = line.slice(prefix.length);
+        const trimmed = content.trim();
+        if (!trimmed) {
+            return line;
+        }
+        const leading = content.slice(0, content.indexOf(trimmed));
+        const trailing = content.slice(leading.length + trimmed.length);
+        return `${prefix}${leading}==${trimmed}==${trailing}`;
+    }).join('\n');
+}
+
+// The patch is a diff-match-patch text patch that inserts tags around the highlight in the original
+// document; the context lines before the first insertion hold the text just before the highlight
+function getPatchPrefix(patch: string | undefined): string {
+    if (!patch) {
+        return '';
+    }
+    const prefix: string[] = [];
+    for (const line of patch.split('\n')) {
+        if (line.startsWith('+')) {
+            break;
+        }
+        if (line.startsWith(' ')) {
+            try {
+                prefix.push(decodeURIComponent(line.slice(1)));
+            } catch (error) {
+                prefix.push(line.slice(1));
+            }
+        }
+    }
+    return prefix.join('').replace(/<[^>]*>/g, ' ');
+}
+
+// Whitespace and ASCII punctuation are dropped, so that Markdown escapes and markup don't get in the way
+function toComparable(text: string): string {
+    return text.toLowerCase().replace(/[\s!-\/:-@\[-`{-~]/g, '');
+}
+
+function getFootnoteLabel(highlight: MarkableHighlight): string {
+    return `omnivore-${highlight.shortId || highlight.id.slice(0, 8)}`;
+}
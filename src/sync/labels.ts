@@ -0,0 +1,144 @@
+// sync/labels.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { Article, ArticleState } from '../types';
+import { OmnivoreClient } from '../api/omnivore';
+import { updateNoteTags } from './tags';
+import { syncState } from './state';
+import { ARCHIVED_TAG } from './reconcile';
+import { logger } from '../logger';
+import { withDeletedTime } from '../version';
+
+// Tags set by the plugin itself, never pushed to Omnivore as labels. Tags added by routing rules are excluded as well.
+const PLUGIN_TAGS = [ARCHIVED_TAG];
+
+// A label change made in Joplin, to be sent to Omnivore
+export interface LabelPush {
+    itemId: string;
+    labels: string[];
+    previousLabels: string[];
+    changedAt: string;
+}
+
+// Two-way sync between the tags of article notes and the labels of their Omnivore items.
+// ArticleState.labels holds the label set both sides agreed on at the last sync. A side whose set differs
+// from it has changed; if both changed, the side modified last wins. Joplin doesn't update a note when its
+// tags change, so the time a local change was first seen stands in for the time it was made.
+// Changes from Omnivore are applied to the notes right away. Changes from Joplin are returned, to be sent
+// with pushArticleLabels once the articles are fetched: setting labels updates an item, which would move it
+// between the pages of a search still being read.
+// Fetched articles get their labels replaced with the resolved set, so that writing them afterwards
+// doesn't undo changes made in Joplin. include limits the sync to some of the synced articles.
+// tagsByNote holds the current tags of all notes (see getTagsByNote); only notes whose tags or labels
+// changed are read from Joplin.
+export async function resolveArticleTags(fetchedArticles: Article[], tagsByNote: Map<string, string[]>, include: (itemId: string) => boolean = () => true): Promise<LabelPush[]> {
+    const fetchedById = new Map(fetchedArticles.map(article => [article.id, article]));
+    const pushes: LabelPush[] = [];
+    let pulledCount = 0;
+
+    for (const [itemId, articleState] of Object.entries(syncState.getArticles())) {
+        if (!include(itemId) || !articleState.noteId || articleState.omnivoreState === 'deleted') {
+            continue;
+        }
+
+        const article = fetchedById.get(itemId);
+        const baseLabels = articleState.labels || [];
+        const isRoutedTag = (title: string) => (articleState.routedTags || []).some(tag => tag.toLowerCase() === title.toLowerCase()) &&
+            !baseLabels.some(label => label.toLowerCase() === title.toLowerCase());
+        const localLabels = (tagsByNote.get(articleState.noteId) || [])
+            .filter(title => !PLUGIN_TAGS.includes(title.toLowerCase()) && !isRoutedTag(title));
+        const remoteLabels = article ? (article.labels || []).map(label => label.name) : baseLabels;
+
+        const localChanged = !sameLabels(localLabels, baseLabels);
+        const remoteChanged = !sameLabels(remoteLabels, baseLabels);
+        if (!localChanged) {
+            delete articleState.localLabelsChangedAt;
+        } else if (!articleState.localLabelsChangedAt) {
+            articleState.localLabelsChangedAt = new Date().toISOString();
+        }
+        if (!localChanged && !remoteChanged) {
+            continue;
+        }
+
+        let note;
+        try {
+            note = await joplin.data.get(['notes', articleState.noteId], { fields: await withDeletedTime(['id']) });
+        } catch (error) {
+            note = null;
+        }
+        if (!note || note.deleted_time) {
+            continue;
+        }
+
+        let joplinWins = localChanged && !remoteChanged;
+        if (localChanged && remoteChanged) {
+            const remoteUpdatedAt = article.updatedAt ? new Date(article.updatedAt).getTime() : 0;
+            joplinWins = new Date(articleState.localLabelsChangedAt).getTime() > remoteUpdatedAt;
+            await logger.info(`Labels of "${articleState.title}" changed in both Joplin and Omnivore. Keeping the ${joplinWins ? 'Joplin' : 'Omnivore'} version, which was modified last.`);
+        }
+
+        if (joplinWins) {
+            pushes.push({ itemId, labels: localLabels, previousLabels: baseLabels, changedAt: articleState.localLabelsChangedAt });
+            resolveLabels(articleState, article, localLabels);
+            continue;
+        }
+        try {
+            await updateNoteTags(articleState.noteId, remoteLabels, localLabels);
+            await logLabelChanges('Pulled from Omnivore', articleState, localLabels, remoteLabels);
+            resolveLabels(articleState, article, remoteLabels);
+            pulledCount++;
+        } catch (error) {
+            await logger.warn(`Failed to sync labels of "${articleState.title}": ${error.message}`);
+        }
+    }
+
+    await syncState.save();
+    await logger.info(`Label sync: pulled ${pulledCount} and found ${pushes.length} label changes to push`);
+    return pushes;
+}
+
+// Send label changes made in Joplin to Omnivore. A change that fails is undone in the sync state, so that
+// the next sync finds it again.
+export async function pushArticleLabels(client: OmnivoreClient, pushes: LabelPush[]): Promise<number> {
+    let pushedCount = 0;
+    for (const push of pushes) {
+        const articleState = syncState.getArticle(push.itemId);
+        try {
+            await client.setLabels(push.itemId, push.labels);
+            await logLabelChanges('Pushed to Omnivore', articleState, push.previousLabels, push.labels);
+            pushedCount++;
+        } catch (error) {
+            articleState.labels = push.previousLabels;
+            articleState.localLabelsChangedAt = push.changedAt;
+            await logger.warn(`Failed to sync labels of "${articleState.title}": ${error.message}`);
+        }
+    }
+
+    await syncState.save();
+    if (pushes.length > 0) {
+        await logger.info(`Label sync: pushed ${pushedCount} of ${pushes.length} label changes`);
+    }
+    return pushedCount;
+}
+
+function resolveLabels(articleState: ArticleState, article: Article | undefined, labels: string[]) {
+    articleState.labels = labels;
+    delete articleState.localLabelsChangedAt;
+    if (article) {
+        article.labels = labels.map(name => ({ name, color: null, description: null }));
+    }
+}
+
+function sameLabels(a: string[], b: string[]): boolean {
+    const normalize = (labels: string[]) => labels.map(label => label.toLowerCase()).sort().join('\n');
+    return normalize(a) === normalize(b);
+}
+
+async function logLabelChanges(direction: string, articleState: ArticleState, before: string[], after: string[]) {
+    const lowerBefore = before.map(label => label.toLowerCase());
+    const lowerAfter = after.map(label => label.toLowerCase());
+    const added = after.filter(label => !lowerBefore.includes(label.toLowerCase()));
+    const removed = before.filter(label => !lowerAfter.includes(label.toLowerCase()));
+    await logger.info(`${direction} for "${articleState.title}": added [${added.join(', ')}], removed [${removed.join(', ')}]`);
+}
@@ -0,0 +1,71 @@
+// sync/markers.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+// Each highlight written to a note is wrapped in HTML comments carrying its ID, so it can be found again later.
+// Joplin doesn't render HTML comments, so the markers are invisible in the viewer.
+const START_MARKER_REGEX = /<!-- omnivore-highlight id="([^"]+)" -->/g;
+const SEPARATOR = '\n---\n';
+
+export interface HighlightBlock {
+    id: string;
+    start: number; // offset of the start marker
+    end: number; // offset just after the end marker, or after the block text for blocks written without one
+    text: string; // block text without the markers
+}
+
+export function highlightStartMarker(highlightId: string): string {
+    return `<!-- omnivore-highlight id="${highlightId}" -->`;
+}
+
+export function highlightEndMarker(highlightId: string): string {
+    return `<!-- /omnivore-highlight id="${highlightId}" -->`;
+}
+
+export function wrapHighlight(highlightId: string, content: string): string {
+    return `${highlightStartMarker(highlightId)}\n${content}\n${highlightEndMarker(highlightId)}`;
+}
+
+// Find the marked highlight blocks in a note body. A block ends at its end marker. Blocks written before
+// end markers were added end at the next separator or start marker.
+export function findHighlightBlocks(body: string): HighlightBlock[] {
+    const starts: { id: string, start: number, textStart: number }[] = [];
+    let match;
+    START_MARKER_REGEX.lastIndex = 0;
+    while ((match = START_MARKER_REGEX.exec(body)) !== null) {
+        starts.push({ id: match[1], start: match.index, textStart: match.index + match[0].length });
+    }
+
+    return starts.map((start, index) => {
+        const nextStart = index + 1 < starts.length ? starts[index + 1].start : body.length;
+
+        const endMarker = highlightEndMarker(start.id);
+        const endMarkerIndex = body.indexOf(endMarker, start.textStart);
+        if (endMarkerIndex >= 0 && endMarkerIndex < nextStart) {
+            return { id: start.id, start: start.start, end: endMarkerIndex + endMarker.length, text: body.substring(start.textStart, endMarkerIndex) };
+        }
+
+        const separator = body.indexOf(SEPARATOR, start.textStart);
+        const end = separator >= 0 && separator < nextStart ? separator : nextStart;
+        return { id: start.id, start: start.start, end, text: body.substring(start.textStart, end) };
+    });
+}
+
+// Read the annotation below the "**Note**:" line of a rendered highlight, without the quote markers.
+// Returns null if the block has no Note section.
+export function extractAnnotation(blockText: string): string | null {
+    const lines = blockText.split('\n');
+    const noteIndex = lines.findIndex(line => /^>?\s*\*\*Note\*\*:\s*$/.test(line.trim()));
+    if (noteIndex < 0) {
+        return null;
+    }
+
+    const annotationLines: string[] = [];
+    for (const line of lines.slice(noteIndex + 1)) {
+        // The annotation ends at the creation time line or at the first line outside the quote
+        if (!line.startsWith('>') || /^>\s*\(\d{4}-\d{2}-\d{2} \d{2}:\d{2}\)\s*$/.test(line)) {
+            break;
+        }
+        annotationLines.push(line.replace(/^>\s?/, ''));
+    }
+    return annotationLines.join('\n').trim();
+}
@@ -0,0 +1,82 @@
+// sync/preview.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+// Dry run of a sync. While a preview is active, the sync code records what it would change instead of
+// writing to Joplin or Omnivore, and the sync state is neither saved nor kept (see SyncStateStore.save).
+
+export type PreviewAction = 'create' | 'update' | 'append' | 'merge' | 'move' | 'trash';
+
+export interface PreviewEntry {
+    action: PreviewAction;
+    title: string;
+    detail?: string;
+}
+
+// Notebooks and notes that would be created get IDs with this prefix, so that later lookups know they don't exist
+const PREVIEW_ID_PREFIX = 'preview:';
+// Entries listed per action in the report; the rest are counted
+const MAX_LISTED_ENTRIES = 15;
+
+const ACTION_HEADINGS: { [action in PreviewAction]: string } = {
+    create: 'Would be created',
+    update: 'Would be updated',
+    append: 'Would get new highlights',
+    merge: 'Would be merged',
+    move: 'Would be moved',
+    trash: 'Would be moved to the trash'
+};
+
+class SyncPreview {
+    private entries: PreviewEntry[] | null = null;
+
+    get active(): boolean {
+        return !!this.entries;
+    }
+
+    begin() {
+        this.entries = [];
+    }
+
+    // Stop recording and return what was recorded
+    end(): PreviewEntry[] {
+        const entries = this.entries || [];
+        this.entries = null;
+        return entries;
+    }
+
+    record(action: PreviewAction, title: string, detail?: string) {
+        if (this.entries) {
+            this.entries.push({ action, title, detail });
+        }
+    }
+}
+
+export function getPreviewId(name: string): string {
+    return `${PREVIEW_ID_PREFIX}${name}`;
+}
+
+export function isPreviewId(id: string): boolean {
+    return !!id && id.startsWith(PREVIEW_ID_PREFIX);
+}
+
+export function buildPreviewReport(entries: PreviewEntry[]): string {
+    if (entries.length === 0) {
+        return 'The next sync would not change any notes.';
+    }
+
+    const sections: string[] = [];
+    for (const action of Object.keys(ACTION_HEADINGS) as PreviewAction[]) {
+        const matching = entries.filter(entry => entry.action === action);
+        if (matching.length === 0) {
+            continue;
+        }
+        const lines = matching.slice(0, MAX_LISTED_ENTRIES).map(entry => `- ${entry.title}${entry.detail ? ` (${entry.detail})` : ''}`);
+        if (matching.length > MAX_LISTED_ENTRIES) {
+            lines.push(`- ... and ${matching.length - MAX_LISTED_ENTRIES} more`);
+        }
+        sections.push(`${ACTION_HEADINGS[action]} (${matching.length}):\n${lines.join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
+export const syncPreview = new SyncPreview();
@@ -0,0 +1,84 @@
+// sync/reconcile.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { ArticleState, ReconcileAction } from '../types';
+import { OmnivoreClient } from '../api/omnivore';
+import { addNoteTags } from './tags';
+import { syncState } from './state';
+import { syncPreview } from './preview';
+import { syncStatus } from './status';
+import { logger } from '../logger';
+import { hasTrash } from '../version';
+
+export const ARCHIVED_TAG = 'omnivore-archived';
+
+// Apply the configured action to the notes of synced items that were archived or deleted in Omnivore.
+// getArchiveFolderId is only called when a note needs to be moved, so the folder is created on demand.
+export async function reconcileItems(client: OmnivoreClient, since: string, action: ReconcileAction, getArchiveFolderId: () => Promise<string>): Promise<{ archived: number, deleted: number }> {
+    if (action === ReconcileAction.None) {
+        return { archived: 0, deleted: 0 };
+    }
+    if (action === ReconcileAction.Trash && !await hasTrash()) {
+        await logger.warn(`This version of Joplin has no trash, so notes are tagged ${ARCHIVED_TAG} instead of deleted`);
+        action = ReconcileAction.Tag;
+    }
+
+    const deletedIds = new Set(await client.getDeletedItemIds(since));
+    const archivedIds = new Set(await client.getArchivedItemIds(since));
+    let archivedCount = 0;
+    let deletedCount = 0;
+
+    for (const [itemId, articleState] of Object.entries(syncState.getArticles())) {
+        syncStatus.throwIfCancelled();
+        if (!articleState.noteId) {
+            continue;
+        }
+
+        // A deleted item may still be reported as archived, so check deletion first
+        if (deletedIds.has(itemId) && articleState.omnivoreState !== 'deleted') {
+            if (await applyAction(articleState, action, getArchiveFolderId)) {
+                articleState.omnivoreState = 'deleted';
+                deletedCount++;
+            }
+        } else if (archivedIds.has(itemId) && !articleState.omnivoreState) {
+            if (await applyAction(articleState, action, getArchiveFolderId)) {
+                articleState.omnivoreState = 'archived';
+                archivedCount++;
+            }
+        }
+    }
+
+    await syncState.save();
+    await logger.info(`Reconciled ${archivedCount} archived and ${deletedCount} deleted articles`);
+    return { archived: archivedCount, deleted: deletedCount };
+}
+
+async function applyAction(articleState: ArticleState, action: ReconcileAction, getArchiveFolderId: () => Promise<string>): Promise<boolean> {
+    if (syncPreview.active) {
+        if (action === ReconcileAction.Tag) {
+            syncPreview.record('update', articleState.title, `tagged ${ARCHIVED_TAG}`);
+        } else if (action === ReconcileAction.ArchiveNotebook) {
+            syncPreview.record('move', articleState.title, 'to the Archive notebook');
+        } else if (action === ReconcileAction.Trash) {
+            syncPreview.record('trash', articleState.title);
+        }
+        return true;
+    }
+
+    try {
+        if (action === ReconcileAction.Tag) {
+            await addNoteTags(articleState.noteId, [ARCHIVED_TAG]);
+        } else if (action === ReconcileAction.ArchiveNotebook) {
+            await joplin.data.put(['notes', articleState.noteId], null, { parent_id: await getArchiveFolderId() });
+        } else if (action === ReconcileAction.Trash) {
+            // Only called with a trash to move the note to (see hasTrash)
+            await joplin.data.delete(['notes', articleState.noteId]);
+        }
+        await logger.debug(`Applied "${action}" to note ${articleState.noteId} (${articleState.title})`);
+        return true;
+    } catch (error) {
+        await logger.warn(`Failed to apply "${action}" to note ${articleState.noteId}: ${error.message}`);
+        return false;
+    }
+}
@@ -0,0 +1,134 @@
+// sync/routing.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { Article, Highlight, RoutingField, RoutingRule } from '../types';
+import { getOrCreateNotebookPath } from './folders';
+import { getHostName } from '../utils';
+import { logger } from '../logger';
+
+// The fields of an article that rules match on
+interface RoutableItem {
+    labels: string[];
+    url: string;
+    pageType?: string;
+    author?: string;
+}
+
+// Parse and check the JSON of the routing rules. Throws an Error listing the problems if it is invalid.
+export function parseRoutingRules(json: string): RoutingRule[] {
+    if (!json || !json.trim()) {
+        return [];
+    }
+
+    let raw;
+    try {
+        raw = JSON.parse(json);
+    } catch (error) {
+        throw new Error(`The routing rules are not valid JSON: ${error.message}`);
+    }
+    if (!Array.isArray(raw)) {
+        throw new Error('The routing rules must be a JSON array.');
+    }
+
+    const fields = Object.values(RoutingField) as string[];
+    const errors: string[] = [];
+    raw.forEach((rule, index) => {
+        const name = `Rule ${index + 1}`;
+        if (!rule || typeof rule !== 'object') {
+            errors.push(`${name} is not an object.`);
+            return;
+        }
+        if (!fields.includes(rule.field)) {
+            errors.push(`${name}: "field" must be one of ${fields.join(', ')}.`);
+        }
+        if (typeof rule.value !== 'string' || !rule.value.trim()) {
+            errors.push(`${name}: "value" must be a non-empty string.`);
+        }
+        if (rule.notebook !== undefined && (typeof rule.notebook !== 'string' || !rule.notebook.trim())) {
+            errors.push(`${name}: "notebook" must be a notebook path such as "Work/Reading".`);
+        }
+        if (rule.tags !== undefined && (!Array.isArray(rule.tags) || rule.tags.some(tag => typeof tag !== 'string'))) {
+            errors.push(`${name}: "tags" must be a list of strings.`);
+        }
+        if (rule.notebook === undefined && rule.tags === undefined) {
+            errors.push(`${name} sets neither "notebook" nor "tags".`);
+        }
+    });
+    if (errors.length > 0) {
+        throw new Error(`The routing rules are invalid:\n\n${errors.join('\n')}`);
+    }
+
+    return raw.map(rule => ({
+        field: rule.field,
+        value: rule.value.trim(),
+        notebook: rule.notebook ? rule.notebook.trim() : undefined,
+        tags: (rule.tags || []).map(tag => tag.trim()).filter(tag => tag)
+    }));
+}
+
+// Rules that can't be parsed are ignored with a warning, so a broken setting doesn't stop the sync
+export async function getRoutingRules(): Promise<RoutingRule[]> {
+    try {
+        return parseRoutingRules(await joplin.settings.value('routingRules'));
+    } catch (error) {
+        await logger.warn(`${error.message}\nRouting rules are ignored until they are fixed.`);
+        return [];
+    }
+}
+
+// The first rule that matches wins
+export function findRoutingRule(rules: RoutingRule[], item: RoutableItem): RoutingRule | null {
+    return rules.find(rule => matchesRule(rule, item)) || null;
+}
+
+export function articleToRoutable(article: Article): RoutableItem {
+    return {
+        labels: (article.labels || []).map(label => label.name),
+        url: article.originalArticleUrl || article.url,
+        pageType: article.pageType,
+        author: article.author
+    };
+}
+
+export function highlightToRoutable(highlight: Highlight): RoutableItem {
+    return {
+        labels: highlight.article.labels || [],
+        url: highlight.article.originalArticleUrl || highlight.article.url,
+        pageType: highlight.article.pageType,
+        author: highlight.article.author
+    };
+}
+
+// Folder ID for the notes of an item matched by a rule, or the default folder if the rule sets no notebook.
+// folderCache keeps the resolved paths of one sync.
+export async function getRoutedFolderId(rule: RoutingRule | null, defaultFolderId: string, folderCache: Map<string, string>): Promise<string> {
+    if (!rule || !rule.notebook) {
+        return defaultFolderId;
+    }
+    if (!folderCache.has(rule.notebook)) {
+        folderCache.set(rule.notebook, (await getOrCreateNotebookPath(rule.notebook)).id);
+    }
+    return folderCache.get(rule.notebook);
+}
+
+// Labels, page types and authors are compared regardless of case. A site matches its subdomains too,
+// and an author matches if the value is part of the author name, since items often list several authors.
+function matchesRule(rule: RoutingRule, item: RoutableItem): boolean {
+    const value = rule.value.toLowerCase();
+    switch (rule.field) {
+        case RoutingField.Label:
+            return item.labels.some(label => label.toLowerCase() === value);
+        case RoutingField.Site: {
+            const host = getHostName(item.url).toLowerCase();
+            const site = value.replace(/^www\./, '');
+            return host === site || host.endsWith(`.${site}`);
+        }
+        case RoutingField.PageType:
+            return (item.pageType || '').toLowerCase() === value;
+        case RoutingField.Author:
+            return (item.author || '').toLowerCase().includes(value);
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,87 @@
+// sync/scheduler.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { logger } from '../logger';
+
+// Give Joplin time to finish starting before the sync on startup
+const STARTUP_DELAY_MS = 10 * 1000;
+
+// Runs the automatic sync with a single timer, and makes sure that only one sync, preview or import runs at a time
+class SyncScheduler {
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private busy = false;
+    private scheduledTask: (() => Promise<void>) | null = null;
+
+    // Start the automatic sync with the current settings. task is what runs when the timer fires.
+    async start(task: () => Promise<void>) {
+        this.scheduledTask = task;
+        if (await joplin.settings.value('syncOnStartup')) {
+            await this.setTimer(STARTUP_DELAY_MS + await getJitterMs());
+        } else {
+            await this.reschedule();
+        }
+    }
+
+    // Replace the pending timer with one for the next interval, e.g. after the interval setting changed
+    async reschedule() {
+        this.clearTimer();
+        const interval = await joplin.settings.value('syncInterval') as number;
+        if (!this.scheduledTask || !(interval > 0)) {
+            await logger.debug('Automatic sync is off');
+            return;
+        }
+        await this.setTimer(interval * 60 * 1000 + await getJitterMs());
+    }
+
+    // Run a task unless another one is running. Returns false if the task was not run.
+    async runExclusive(task: () => Promise<void>): Promise<boolean> {
+        if (this.busy) {
+            return false;
+        }
+        this.busy = true;
+        try {
+            await task();
+            return true;
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    private async setTimer(delayMs: number) {
+        this.clearTimer();
+        this.timer = setTimeout(() => this.onTimer(), delayMs);
+        await logger.debug(`Next automatic sync in ${Math.round(delayMs / 1000)}s`);
+    }
+
+    private clearTimer() {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private async onTimer() {
+        this.timer = null;
+        const task = this.scheduledTask;
+        if (!task) {
+            return;
+        }
+        try {
+            if (!(await this.runExclusive(task))) {
+                await logger.info('Skipping the automatic sync, since another sync is running');
+            }
+        } catch (error) {
+            await logger.error(`Automatic sync failed: ${error.message}`);
+        }
+        await this.reschedule();
+    }
+}
+
+// A random delay of up to the jitter setting, so that several devices don't sync at the same moment
+async function getJitterMs(): Promise<number> {
+    const jitter = await joplin.settings.value('syncJitter') as number;
+    return jitter > 0 ? Math.floor(Math.random() * jitter * 60 * 1000) : 0;
+}
+
+export const syncScheduler = new SyncScheduler();
@@ -0,0 +1,294 @@
+// sync/state.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { ArticleState, HighlightState, SyncedArticle } from '../types';
+import { syncPreview } from './preview';
+import { logger } from '../logger';
+
+const STATE_FILE_NAME = 'sync-state.json';
+const STATE_VERSION = 1;
+
+interface SyncStateData {
+    version: number;
+    lastSyncDate: string;
+    articles: { [itemId: string]: ArticleState };
+    highlights: { [groupKey: string]: { [highlightId: string]: HighlightState } };
+    cursors: { [kind: string]: { query: string, after: string } }; // where searches that failed part way continue
+    imageResources: { [url: string]: string }; // resource IDs of downloaded images, so each image is downloaded once
+}
+
+// Persistent sync state, stored as a JSON file in the plugin data directory.
+// Nothing is dropped automatically: dedupe relies on these records, not on the last sync date.
+class SyncStateStore {
+    private data: SyncStateData | null = null;
+    // Highlight IDs by quote hash, built on first use
+    private quoteIndex: Map<string, Set<string>> | null = null;
+
+    private get state(): SyncStateData {
+        if (!this.data) {
+            throw new Error('Sync state has not been loaded');
+        }
+        return this.data;
+    }
+
+    async load(): Promise<void> {
+        const fs = joplin.require('fs-extra');
+        const filePath = await this.getFilePath();
+
+        this.quoteIndex = null;
+        if (await fs.pathExists(filePath)) {
+            try {
+                this.data = migrateState(await fs.readJson(filePath));
+            } catch (error) {
+                // A corrupt file, or one written by a newer plugin version, must not keep the plugin from starting
+                await logger.error(`Could not read the sync state: ${error.message}`);
+                await backUpStateFile(filePath);
+                this.data = migrateState({});
+                await this.save();
+            }
+        } else {
+            this.data = await migrateFromSettings();
+            await this.save();
+            await clearLegacySettings();
+        }
+        await logger.debug(`Loaded sync state: ${Object.keys(this.state.articles).length} articles, ${this.countHighlights()} highlights`);
+    }
+
+    async save(): Promise<void> {
+        // A preview changes the state in memory only; it is loaded again from the file when the preview ends
+        if (syncPreview.active) {
+            return;
+        }
+        const fs = joplin.require('fs-extra');
+        const filePath = await this.getFilePath();
+
+        // Write to a temporary file first so that a crash never leaves a truncated state file
+        await fs.writeJson(`${filePath}.tmp`, this.state, { spaces: 2 });
+        await fs.move(`${filePath}.tmp`, filePath, { overwrite: true });
+    }
+
+    get lastSyncDate(): string {
+        return this.state.lastSyncDate;
+    }
+
+    set lastSyncDate(value: string) {
+        this.state.lastSyncDate = value;
+    }
+
+    getArticle(itemId: string): ArticleState | undefined {
+        return this.state.articles[itemId];
+    }
+
+    setArticle(itemId: string, articleState: ArticleState) {
+        this.state.articles[itemId] = articleState;
+    }
+
+    getArticles(): { [itemId: string]: ArticleState } {
+        return this.state.articles;
+    }
+
+    isHighlightSynced(groupKey: string, highlightId: string): boolean {
+        return !!this.state.highlights[groupKey]?.[highlightId];
+    }
+
+    setHighlight(groupKey: string, highlightId: string, highlightState: HighlightState) {
+        if (!this.state.highlights[groupKey]) {
+            this.state.highlights[groupKey] = {};
+        }
+        this.state.highlights[groupKey][highlightId] = highlightState;
+        if (highlightState.quoteHash) {
+            this.indexQuote(highlightState.quoteHash, highlightId);
+        }
+    }
+
+    // IDs of the synced highlights with the given quote hash, in any group
+    getHighlightIdsByQuote(quoteHash: string): string[] {
+        if (!this.quoteIndex) {
+            this.quoteIndex = new Map();
+            for (const group of Object.values(this.state.highlights)) {
+                for (const [highlightId, highlightState] of Object.entries(group)) {
+                    if (highlightState.quoteHash) {
+                        this.indexQuote(highlightState.quoteHash, highlightId);
+                    }
+                }
+            }
+        }
+        return Array.from(this.quoteIndex.get(quoteHash) || []);
+    }
+
+    // Record the quote hash of a highlight synced before quote hashes were stored
+    setHighlightQuoteHash(groupKey: string, highlightId: string, quoteHash: string) {
+        const highlightState = this.state.highlights[groupKey]?.[highlightId];
+        if (highlightState && !highlightState.quoteHash) {
+            highlightState.quoteHash = quoteHash;
+            this.indexQuote(quoteHash, highlightId);
+        }
+    }
+
+    private indexQuote(quoteHash: string, highlightId: string) {
+        if (!this.quoteIndex) {
+            return;
+        }
+        if (!this.quoteIndex.has(quoteHash)) {
+            this.quoteIndex.set(quoteHash, new Set());
+        }
+        this.quoteIndex.get(quoteHash).add(highlightId);
+    }
+
+    getHighlights(): { [groupKey: string]: { [highlightId: string]: HighlightState } } {
+        return this.state.highlights;
+    }
+
+    // Point the highlights written to a note that was merged into another note to the merged note
+    replaceHighlightNote(oldNoteId: string, newNoteId: string) {
+        for (const group of Object.values(this.state.highlights)) {
+            for (const highlightState of Object.values(group)) {
+                if (highlightState.noteId === oldNoteId) {
+                    highlightState.noteId = newNoteId;
+                }
+            }
+        }
+    }
+
+    // A cursor only applies to the query it was stored for
+    getCursor(kind: string, query: string): string | null {
+        const cursor = this.state.cursors[kind];
+        return cursor && cursor.query === query ? cursor.after : null;
+    }
+
+    setCursor(kind: string, query: string, after: string | null) {
+        if (after) {
+            this.state.cursors[kind] = { query, after };
+        } else {
+            delete this.state.cursors[kind];
+        }
+    }
+
+    getImageResource(url: string): string | undefined {
+        return this.state.imageResources[url];
+    }
+
+    setImageResource(url: string, resourceId: string) {
+        this.state.imageResources[url] = resourceId;
+    }
+
+    countHighlights(): number {
+        return Object.values(this.state.highlights).reduce((count, group) => count + Object.keys(group).length, 0);
+    }
+
+    // Clear the last sync date so that the next sync fetches everything again. Records whose notes were
+    // deleted are dropped so those items are written again; all other records are kept, so re-fetched
+    // items are matched with their notes instead of duplicated.
+    async reset(): Promise<void> {
+        this.state.lastSyncDate = '';
+        this.state.cursors = {};
+
+        for (const [itemId, articleState] of Object.entries(this.state.articles)) {
+            if (articleState.noteId && !(await noteExists(articleState.noteId))) {
+                delete this.state.articles[itemId];
+            }
+        }
+
+        for (const [groupKey, group] of Object.entries(this.state.highlights)) {
+            for (const [highlightId, highlightState] of Object.entries(group)) {
+                if (highlightState.noteId && !(await noteExists(highlightState.noteId))) {
+                    delete group[highlightId];
+                }
+            }
+            if (Object.keys(group).length === 0) {
+                delete this.state.highlights[groupKey];
+            }
+        }
+
+        await this.save();
+    }
+
+    private async getFilePath(): Promise<string> {
+        return `${await joplin.plugins.dataDir()}/${STATE_FILE_NAME}`;
+    }
+}
+
+function migrateState(raw: any): SyncStateData {
+    const version = raw && typeof raw.version === 'number' ? raw.version : 0;
+    if (version > STATE_VERSION) {
+        throw new Error(`Sync state file has version ${version}, but this plugin version only supports up to ${STATE_VERSION}. Please update the plugin.`);
+    }
+
+    // Future schema changes are applied here, one version at a time
+    return {
+        version: STATE_VERSION,
+        lastSyncDate: raw.lastSyncDate || '',
+        articles: raw.articles || {},
+        highlights: raw.highlights || {},
+        cursors: raw.cursors || {},
+        imageResources: raw.imageResources || {}
+    };
+}
+
+// Keep a state file that can't be read next to the new one, so that nothing in it is lost
+async function backUpStateFile(filePath: string) {
+    const fs = joplin.require('fs-extra');
+    const backupPath = `${filePath}.${Date.now()}.bak`;
+    try {
+        await fs.move(filePath, backupPath);
+        await logger.error(`Moved the sync state to ${backupPath} and started over with an empty one. The next sync fetches everything again.`);
+    } catch (error) {
+        await logger.error(`Could not back up the sync state to ${backupPath}: ${error.message}`);
+    }
+}
+
+// Build the initial state from the JSON strings that earlier versions kept in the plugin settings
+async function migrateFromSettings(): Promise<SyncStateData> {
+    const syncedArticles: SyncedArticle[] = JSON.parse(await joplin.settings.value('syncedArticles') || '[]');
+    const articleNotes: { [id: string]: any } = JSON.parse(await joplin.settings.value('articleNotes') || '{}');
+    const syncedHighlights: { [key: string]: string[] } = JSON.parse(await joplin.settings.value('syncedHighlights') || '{}');
+    const now = new Date().toISOString();
+
+    const data: SyncStateData = {
+        version: STATE_VERSION,
+        lastSyncDate: await joplin.settings.value('lastSyncDate') || '',
+        articles: {},
+        highlights: {},
+        cursors: {},
+        imageResources: {}
+    };
+
+    for (const item of syncedArticles) {
+        data.articles[item.id] = { noteId: null, savedAt: item.savedAt, updatedAt: null, labels: [], syncedAt: now };
+    }
+    for (const [itemId, articleNote] of Object.entries(articleNotes)) {
+        data.articles[itemId] = {
+            ...articleNote,
+            savedAt: data.articles[itemId]?.savedAt || now,
+            syncedAt: now
+        };
+    }
+    for (const [groupKey, highlightIds] of Object.entries(syncedHighlights)) {
+        data.highlights[groupKey] = {};
+        for (const highlightId of highlightIds) {
+            data.highlights[groupKey][highlightId] = { syncedAt: now };
+        }
+    }
+
+    await logger.info(`Migrated sync state from settings: ${Object.keys(data.articles).length} articles, ${Object.keys(data.highlights).length} highlight groups`);
+    return data;
+}
+
+async function clearLegacySettings() {
+    await joplin.settings.setValue('syncedArticles', '[]');
+    await joplin.settings.setValue('articleNotes', '{}');
+    await joplin.settings.setValue('syncedHighlights', '{}');
+    await joplin.settings.setValue('lastSyncDate', '');
+}
+
+async function noteExists(noteId: string): Promise<boolean> {
+    try {
+        const note = await joplin.data.get(['notes', noteId], { fields: ['id'] });
+        return !!note;
+    } catch (error) {
+        return false;
+    }
+}
+
+export const syncState = new SyncStateStore();
@@ -0,0 +1,177 @@
+// sync/status.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { TemplateError } from './templates';
+import { logger } from '../logger';
+
+const HISTORY_FILE_NAME = 'sync-history.json';
+const HISTORY_LENGTH = 20;
+
+export type SyncRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SyncItemError {
+    kind: 'article' | 'highlights';
+    title: string;
+    itemId?: string;
+    noteId?: string;
+    message: string;
+}
+
+export interface SyncCounts {
+    fetched: number;
+    written: number;
+}
+
+export interface SyncRun {
+    startedAt: string;
+    finishedAt?: string;
+    status: SyncRunStatus;
+    phase: string;
+    articles: SyncCounts;
+    highlights: SyncCounts;
+    errors: SyncItemError[];
+    error?: string; // why a failed run stopped
+    preview?: boolean; // a dry run, which wrote nothing (see syncPreview)
+}
+
+// Thrown at the next checkpoint after a cancel was requested
+export class SyncCancelledError extends Error {
+    constructor() {
+        super('The sync was cancelled.');
+        this.name = 'SyncCancelledError';
+    }
+}
+
+// Progress of the running sync and the history of the last runs, which the status panel shows.
+// Calls made while no sync is running, e.g. from the export import, are ignored.
+class SyncStatusTracker {
+    private history: SyncRun[] = [];
+    private running: SyncRun | null = null;
+    private cancelRequested = false;
+    private listeners: (() => void)[] = [];
+
+    async load(): Promise<void> {
+        const fs = joplin.require('fs-extra');
+        const filePath = await this.getFilePath();
+        try {
+            if (await fs.pathExists(filePath)) {
+                const runs = await fs.readJson(filePath);
+                this.history = Array.isArray(runs) ? runs : [];
+            }
+        } catch (error) {
+            await logger.warn(`Could not read the sync history: ${error.message}`);
+        }
+    }
+
+    get current(): SyncRun | null {
+        return this.running;
+    }
+
+    get isRunning(): boolean {
+        return !!this.running;
+    }
+
+    // Most recent run first
+    get runs(): SyncRun[] {
+        return this.history;
+    }
+
+    onChange(listener: () => void) {
+        this.listeners.push(listener);
+    }
+
+    start(preview = false) {
+        this.cancelRequested = false;
+        this.running = {
+            startedAt: new Date().toISOString(),
+            status: 'running',
+            phase: 'Starting',
+            articles: { fetched: 0, written: 0 },
+            highlights: { fetched: 0, written: 0 },
+            errors: [],
+            preview
+        };
+        this.notify();
+    }
+
+    // Phase changes are cancel checkpoints
+    setPhase(phase: string) {
+        this.throwIfCancelled();
+        if (this.running) {
+            this.running.phase = phase;
+            this.notify();
+        }
+    }
+
+    addFetched(kind: 'articles' | 'highlights', count: number) {
+        if (this.running) {
+            this.running[kind].fetched += count;
+            this.notify();
+        }
+    }
+
+    addWritten(kind: 'articles' | 'highlights', count: number) {
+        if (this.running && count > 0) {
+            this.running[kind].written += count;
+            this.notify();
+        }
+    }
+
+    // Record an error that only affects one item, so the sync can go on with the others.
+    // Errors that must stop the whole sync, such as an invalid template or a cancel, are thrown again.
+    async recordItemError(error: any, item: Omit<SyncItemError, 'message'>) {
+        if (error instanceof SyncCancelledError || error instanceof TemplateError) {
+            throw error;
+        }
+        await logger.error(`Error syncing ${item.kind} "${item.title}": ${error.message}`);
+        if (this.running) {
+            this.running.errors.push({ ...item, message: error.message });
+            this.notify();
+        }
+    }
+
+    requestCancel() {
+        if (this.running && !this.cancelRequested) {
+            this.cancelRequested = true;
+            this.running.phase = 'Cancelling';
+            this.notify();
+        }
+    }
+
+    throwIfCancelled() {
+        if (this.running && this.cancelRequested) {
+            throw new SyncCancelledError();
+        }
+    }
+
+    async finish(status: Exclude<SyncRunStatus, 'running'>, error?: string): Promise<void> {
+        if (!this.running) {
+            return;
+        }
+        const run = { ...this.running, status, phase: '', finishedAt: new Date().toISOString(), error };
+        this.running = null;
+        this.cancelRequested = false;
+        this.history = [run, ...this.history].slice(0, HISTORY_LENGTH);
+        this.notify();
+
+        try {
+            const fs = joplin.require('fs-extra');
+            await fs.writeJson(await this.getFilePath(), this.history, { spaces: 2 });
+        } catch (writeError) {
+            await logger.warn(`Could not save the sync history: ${writeError.message}`);
+        }
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+
+    private async getFilePath(): Promise<string> {
+        return `${await joplin.plugins.dataDir()}/${HISTORY_FILE_NAME}`;
+    }
+}
+
+export const syncStatus = new SyncStatusTracker();
@@ -0,0 +1,80 @@
+// sync/tags.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { logger } from '../logger';
+
+export async function getNoteTags(noteId: string): Promise<{ id: string, title: string }[]> {
+    return await getAllItems(['notes', noteId, 'tags'], ['id', 'title']);
+}
+
+// Tag titles of every tagged note, by note ID. Reading them tag by tag takes far fewer requests than note by note.
+export async function getTagsByNote(): Promise<Map<string, string[]>> {
+    const tagsByNote = new Map<string, string[]>();
+    for (const tag of await getAllItems(['tags'], ['id', 'title'])) {
+        for (const note of await getAllItems(['tags', tag.id, 'notes'], ['id'])) {
+            if (!tagsByNote.has(note.id)) {
+                tagsByNote.set(note.id, []);
+            }
+            tagsByNote.get(note.id).push(tag.title);
+        }
+    }
+    return tagsByNote;
+}
+
+async function getAllItems(path: string[], fields: string[]): Promise<any[]> {
+    const items: any[] = [];
+    let page = 1;
+    let hasMore = true;
+
+    while (hasMore) {
+        const result = await joplin.data.get(path, { fields, page });
+        items.push(...result.items);
+        hasMore = result.has_more;
+        page++;
+    }
+
+    return items;
+}
+
+export async function addNoteTags(noteId: string, tagTitles: string[]) {
+    for (const title of tagTitles) {
+        const tag = await getOrCreateTag(title);
+        await joplin.data.post(['tags', tag.id, 'notes'], null, { id: noteId });
+        await logger.debug(`Added tag "${title}" to note ${noteId}`);
+    }
+}
+
+export async function removeNoteTags(noteId: string, tagTitles: string[]) {
+    const wanted = tagTitles.map(title => title.toLowerCase());
+    const noteTags = await getNoteTags(noteId);
+
+    for (const tag of noteTags.filter(tag => wanted.includes(tag.title.toLowerCase()))) {
+        await joplin.data.delete(['tags', tag.id, 'notes', noteId]);
+        await logger.debug(`Removed tag "${tag.title}" from note ${noteId}`);
+    }
+}
+
+// Bring the Omnivore-managed tags of a note from previousTitles to tagTitles.
+// Tags that were not set by the plugin are left alone.
+export async function updateNoteTags(noteId: string, tagTitles: string[], previousTitles: string[]) {
+    const current = (await getNoteTags(noteId)).map(tag => tag.title.toLowerCase());
+    const wanted = tagTitles.map(title => title.toLowerCase());
+
+    const toAdd = tagTitles.filter(title => !current.includes(title.toLowerCase()));
+    const toRemove = previousTitles.filter(title => !wanted.includes(title.toLowerCase()));
+
+    await addNoteTags(noteId, toAdd);
+    if (toRemove.length > 0) {
+        await removeNoteTags(noteId, toRemove);
+    }
+}
+
+async function getOrCreateTag(title: string): Promise<any> {
+    const searchResult = await joplin.data.get(['search'], { query: title, type: 'tag', fields: ['id', 'title'] });
+    const existingTag = (searchResult.items || []).find(tag => tag.title.toLowerCase() === title.toLowerCase());
+    if (existingTag) {
+        return existingTag;
+    }
+    return await joplin.data.post(['tags'], null, { title });
+}
@@ -0,0 +1,267 @@
+// sync/templates.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import * as Mustache from 'mustache';
+
+// Variables available to highlight templates. Keep in sync with the view built in renderHighlightContent
+// and with the list in README.md.
+export const HIGHLIGHT_TEMPLATE_VARIABLES: { [name: string]: string } = {
+    'id': 'Highlight ID',
+    'shortId': 'Short highlight ID',
+    'type': 'Highlight type (HIGHLIGHT, NOTE or REDACTION)',
+    'quote': 'Highlighted text, formatted as a Markdown quote',
+    'quoteText': 'Highlighted text, without quote formatting',
+    'annotation': 'Annotation, formatted as a Markdown quote (empty if there is none)',
+    'annotationText': 'Annotation, without quote formatting',
+    'patch': 'Raw position patch of the highlight',
+    'color': 'Highlight colour (e.g., "yellow")',
+    'positionPercent': 'Position of the highlight in the article, in percent (rounded)',
+    'positionAnchorIndex': 'Position anchor index of the highlight',
+    'createdAt': 'Creation date and time (yyyy-MM-dd HH:mm, in your timezone)',
+    'updatedAt': 'Last update date and time (yyyy-MM-dd HH:mm, in your timezone)',
+    'labels': 'List of highlight labels, each with "name" and "color"',
+    'labelNames': 'Highlight label names, comma-separated',
+    'article.id': 'Article ID',
+    'article.title': 'Article title',
+    'article.author': 'Article author ("Unknown" if not set)',
+    'article.siteName': 'Site name of the article',
+    'article.url': 'Article URL',
+    'article.originalArticleUrl': 'Original article URL',
+    'article.omnivoreUrl': 'Link to the article in the Omnivore web app',
+    'article.slug': 'Article slug',
+    'article.savedAt': 'Date and time the article was saved (yyyy-MM-dd HH:mm)',
+    'article.publishedAt': 'Publish date and time of the article (yyyy-MM-dd HH:mm, "Unknown" if not set)',
+    'article.labels': 'List of article labels, each with "name"',
+    'article.labelNames': 'Article label names, comma-separated',
+};
+
+// Variables available to article templates. Keep in sync with the view built in renderArticleBody
+// and with the list in README.md.
+export const ARTICLE_TEMPLATE_VARIABLES: { [name: string]: string } = {
+    'id': 'Article ID',
+    'title': 'Article title',
+    'author': 'Article author ("Unknown" if not set)',
+    'siteName': 'Site name',
+    'description': 'Article description',
+    'pageType': 'Item type (ARTICLE, BOOK, FILE, TWEET, VIDEO, ...)',
+    'url': 'Article URL',
+    'originalArticleUrl': 'Original article URL',
+    'omnivoreUrl': 'Link to the article in the Omnivore web app',
+    'slug': 'Article slug',
+    'image': 'URL of the article image',
+    'savedAt': 'Date and time the article was saved (yyyy-MM-dd HH:mm, in your timezone)',
+    'publishedAt': 'Publish date and time (yyyy-MM-dd HH:mm, "Unknown" if not set)',
+    'updatedAt': 'Last update date and time (yyyy-MM-dd HH:mm)',
+    'wordsCount': 'Number of words',
+    'readingProgressPercent': 'Reading progress, in percent',
+    'labels': 'List of labels, each with "name"',
+    'labelNames': 'Label names, comma-separated',
+    'content': 'Article content, converted to Markdown',
+    'hasHighlights': 'True if the article has highlights',
+    'highlights': 'List of highlights in the order they appear, each with "id", "quote", "quoteText", "annotation", "annotationText", "color", "positionPercent" and "createdAt"',
+    'yaml.title': 'Title, quoted for YAML front matter',
+    'yaml.author': 'Author, quoted for YAML front matter',
+    'yaml.siteName': 'Site name, quoted for YAML front matter',
+    'yaml.url': 'Article URL, quoted for YAML front matter',
+    'yaml.originalArticleUrl': 'Original article URL, quoted for YAML front matter',
+    'yaml.omnivoreUrl': 'Omnivore link, quoted for YAML front matter',
+    'yaml.savedAt': 'Save date and time as ISO 8601, quoted for YAML front matter',
+    'yaml.publishedAt': 'Publish date and time as ISO 8601, quoted for YAML front matter (null if not set)',
+    'yaml.wordsCount': 'Number of words for YAML front matter (null if not known)',
+    'yaml.labels': 'Label names as a YAML flow sequence',
+};
+
+// Date parts shared by the title templates. Keep in sync with getDateParts in titles.ts.
+const DATE_PART_VARIABLES: { [name: string]: string } = {
+    'date': 'Date (yyyy-MM-dd)',
+    'year': 'Year (yyyy)',
+    'month': 'Month (MM)',
+    'monthName': 'Month name (e.g., "September")',
+    'day': 'Day of the month (dd)',
+    'weekday': 'Day of the week (e.g., "Monday")',
+    'week': 'ISO week number (WW)',
+    'weekYear': 'ISO week-numbering year (kkkk)',
+    'isoWeek': 'ISO week (e.g., "2024-W36")',
+};
+
+// Variables available to article note title templates. Keep in sync with renderArticleTitle in titles.ts.
+export const ARTICLE_TITLE_TEMPLATE_VARIABLES: { [name: string]: string } = {
+    'title': 'Article title',
+    'author': 'Article author ("Unknown" if not set)',
+    'siteName': 'Site name, or the host name of the original article if not set',
+    'label': 'First label of the article (empty if there is none)',
+    ...DATE_PART_VARIABLES
+};
+
+// Variables available to highlight note title templates. Keep in sync with renderHighlightNoteTitle in titles.ts.
+export const HIGHLIGHT_TITLE_TEMPLATE_VARIABLES: { [name: string]: string } = {
+    'prefix': 'Highlight Note Title Prefix setting',
+    'group': 'Name of the highlight group: the date, week, month, label, site, author or article title',
+    'title': 'Title of the article of the earliest highlight in the group',
+    'author': 'Author of that article ("Unknown" if not set)',
+    'siteName': 'Site name of that article, or the host name of the original article if not set',
+    'label': 'First label of that article (empty if there is none)',
+    ...DATE_PART_VARIABLES
+};
+
+export type TemplateKind = 'highlight' | 'article' | 'articleTitle' | 'highlightTitle';
+
+interface TemplateConfig {
+    name: string;
+    settingKey: string;
+    noteSettingKey: string | null; // null for templates that can only be set in the settings
+    variables: { [name: string]: string };
+    // Variables available inside {{#section}} blocks that iterate over a list
+    sectionVariables: { [section: string]: string[] };
+}
+
+const TEMPLATE_CONFIGS: { [kind in TemplateKind]: TemplateConfig } = {
+    highlight: {
+        name: 'highlight',
+        settingKey: 'customHighlightTemplate',
+        noteSettingKey: 'customHighlightTemplateNote',
+        variables: HIGHLIGHT_TEMPLATE_VARIABLES,
+        sectionVariables: {
+            'labels': ['name', 'color'],
+            'article.labels': ['name']
+        }
+    },
+    article: {
+        name: 'article',
+        settingKey: 'customArticleTemplate',
+        noteSettingKey: 'customArticleTemplateNote',
+        variables: ARTICLE_TEMPLATE_VARIABLES,
+        sectionVariables: {
+            'labels': ['name'],
+            'highlights': ['id', 'quote', 'quoteText', 'annotation', 'annotationText', 'color', 'positionPercent', 'createdAt']
+        }
+    },
+    articleTitle: {
+        name: 'article title',
+        settingKey: 'articleTitleTemplate',
+        noteSettingKey: null,
+        variables: ARTICLE_TITLE_TEMPLATE_VARIABLES,
+        sectionVariables: {}
+    },
+    highlightTitle: {
+        name: 'highlight title',
+        settingKey: 'highlightTitleTemplate',
+        noteSettingKey: null,
+        variables: HIGHLIGHT_TITLE_TEMPLATE_VARIABLES,
+        sectionVariables: {}
+    }
+};
+
+export class TemplateError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateError';
+    }
+}
+
+// Check the template syntax and the variables it uses. Returns a list of problems, empty if the template is valid.
+export function validateTemplate(template: string, kind: TemplateKind): string[] {
+    const { variables, sectionVariables } = TEMPLATE_CONFIGS[kind];
+    if (!template.trim()) {
+        return ['The template is empty.'];
+    }
+
+    let tokens;
+    try {
+        tokens = Mustache.parse(template);
+    } catch (error) {
+        return [`Syntax error: ${error.message}`];
+    }
+
+    const errors: string[] = [];
+    const checkTokens = (tokenList: any[], sections: string[]) => {
+        for (const token of tokenList) {
+            const [type, name] = token;
+            if (!['name', '&', '{', '#', '^'].includes(type) || name === '.') {
+                continue;
+            }
+            const inSection = sections.some(section => (sectionVariables[section] || []).includes(name));
+            if (!variables[name] && !sectionVariables[name] && !inSection) {
+                errors.push(`Unknown variable "${name}".`);
+            }
+            if ((type === '#' || type === '^') && token[4]) {
+                checkTokens(token[4], [...sections, name]);
+            }
+        }
+    };
+    checkTokens(tokens, []);
+
+    return Array.from(new Set(errors));
+}
+
+// Render a template, turning any Mustache error into a TemplateError with a clear message.
+// With escapeHtml false, {{name}} inserts the value as is, like {{{name}}}.
+export function renderTemplate(template: string, view: any, templateName: string, escapeHtml = true): string {
+    try {
+        return Mustache.render(template, view, {}, escapeHtml ? undefined : { escape: (value: unknown) => String(value) });
+    } catch (error) {
+        throw new TemplateError(`The ${templateName} template could not be rendered: ${error.message}`);
+    }
+}
+
+// A custom template comes from the designated note if one is set, otherwise from the setting.
+// In the setting, "\n" stands for a line break.
+async function getCustomTemplateSource(kind: TemplateKind): Promise<{ template: string, source: string }> {
+    const config = TEMPLATE_CONFIGS[kind];
+    const noteRef = config.noteSettingKey ? (await joplin.settings.value(config.noteSettingKey) as string).trim() : '';
+    if (noteRef) {
+        const note = await findTemplateNote(noteRef);
+        if (!note) {
+            throw new TemplateError(`The custom ${config.name} template note "${noteRef}" was not found.`);
+        }
+        return { template: extractTemplateFromNote(note.body), source: `note "${note.title}"` };
+    }
+
+    const template = (await joplin.settings.value(config.settingKey) as string).replace(/\\n/g, '\n');
+    return { template, source: 'setting' };
+}
+
+export async function getCustomTemplate(kind: TemplateKind): Promise<string> {
+    const { template, source } = await getCustomTemplateSource(kind);
+    const errors = validateTemplate(template, kind);
+    if (errors.length > 0) {
+        throw new TemplateError(`The custom ${TEMPLATE_CONFIGS[kind].name} template (from the ${source}) is invalid:\n\n${errors.join('\n')}`);
+    }
+    return template.trim();
+}
+
+// Returns the ID of the template note, so that edits to it can be validated when it is saved
+export async function getCustomTemplateNoteId(kind: TemplateKind): Promise<string | null> {
+    const { noteSettingKey } = TEMPLATE_CONFIGS[kind];
+    const noteRef = noteSettingKey ? (await joplin.settings.value(noteSettingKey) as string).trim() : '';
+    if (!noteRef) {
+        return null;
+    }
+    const note = await findTemplateNote(noteRef);
+    return note ? note.id : null;
+}
+
+// Quote a value for YAML front matter. A JSON string is a valid double-quoted YAML scalar.
+export function yamlValue(value: string | number | null | undefined): string {
+    return value === null || value === undefined || value === '' ? 'null' : JSON.stringify(value);
+}
+
+// A note can be given by ID or by exact title
+async function findTemplateNote(noteRef: string): Promise<any> {
+    if (/^[0-9a-f]{32}$/.test(noteRef)) {
+        try {
+            return await joplin.data.get(['notes', noteRef], { fields: ['id', 'title', 'body'] });
+        } catch (error) {
+            return null;
+        }
+    }
+    const searchResult = await joplin.data.get(['search'], { query: `title:"${noteRef}"`, fields: ['id', 'title', 'body'] });
+    return (searchResult.items || []).find(note => note.title === noteRef) || null;
+}
+
+// Use the first fenced code block of the note if there is one, so the template can be kept apart from notes about it
+function extractTemplateFromNote(body: string): string {
+    const fenced = body.match(/```[^\n]*\n([\s\S]*?)\n```/);
+    return fenced ? fenced[1] : body;
+}
@@ -0,0 +1,102 @@
+// sync/titles.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { DateTime } from 'luxon';
+import { Article, Highlight } from '../types';
+import { decodeAndCleanText } from './highlight';
+import { getCustomTemplate, renderTemplate } from './templates';
+import { getHostName } from '../utils';
+
+export const DEFAULT_ARTICLE_TITLE_TEMPLATE = '{{{title}}}';
+export const DEFAULT_HIGHLIGHT_TITLE_TEMPLATE = '{{{prefix}}}{{{group}}}';
+
+const MAX_TITLE_LENGTH = 150;
+
+// An empty setting stands for the default template
+export async function getTitleTemplate(kind: 'articleTitle' | 'highlightTitle'): Promise<string> {
+    const value = await joplin.settings.value(`${kind}Template`) as string;
+    if (!value || !value.trim()) {
+        return kind === 'articleTitle' ? DEFAULT_ARTICLE_TITLE_TEMPLATE : DEFAULT_HIGHLIGHT_TITLE_TEMPLATE;
+    }
+    return await getCustomTemplate(kind);
+}
+
+// See ARTICLE_TITLE_TEMPLATE_VARIABLES for the documentation of each variable.
+// Date parts are those of the date the article was saved.
+// Like the default highlight note title, the default article title is the title unchanged, as plugin versions
+// before title templates wrote it, so that existing notes keep their titles and the links to them.
+export function renderArticleTitle(article: Article, template: string, userTimezone: string): string {
+    if (template === DEFAULT_ARTICLE_TITLE_TEMPLATE) {
+        return article.title;
+    }
+    const title = renderTemplate(template, {
+        title: decodeAndCleanText(article.title || ''),
+        author: article.author ? decodeAndCleanText(article.author) : 'Unknown',
+        siteName: article.siteName ? decodeAndCleanText(article.siteName) : getHostName(article.originalArticleUrl || article.url),
+        label: article.labels && article.labels.length > 0 ? decodeAndCleanText(article.labels[0].name) : '',
+        ...getDateParts(article.savedAt, userTimezone)
+    }, 'article title');
+    return sanitizeTitle(title, article.title);
+}
+
+// See HIGHLIGHT_TITLE_TEMPLATE_VARIABLES for the documentation of each variable.
+// Article fields and date parts are those of the earliest highlight of the group.
+// Highlight notes are found again by their title, so the default template gives the title unchanged, as
+// plugin versions before title templates did. Sanitizing it would miss the notes they created.
+export function renderHighlightNoteTitle(template: string, prefix: string, group: string, highlights: Highlight[], userTimezone: string): string {
+    if (template === DEFAULT_HIGHLIGHT_TITLE_TEMPLATE) {
+        return `${prefix}${group}`;
+    }
+    const first = highlights.reduce((earliest, highlight) =>
+        new Date(highlight.createdAt) < new Date(earliest.createdAt) ? highlight : earliest);
+    const title = renderTemplate(template, {
+        prefix,
+        group,
+        title: decodeAndCleanText(first.article.title || ''),
+        author: first.article.author ? decodeAndCleanText(first.article.author) : 'Unknown',
+        siteName: first.article.siteName ? decodeAndCleanText(first.article.siteName) : getHostName(first.article.originalArticleUrl || first.article.url),
+        label: first.article.labels && first.article.labels.length > 0 ? decodeAndCleanText(first.article.labels[0]) : '',
+        ...getDateParts(first.createdAt, userTimezone)
+    }, 'highlight title');
+    return sanitizeTitle(title, `${prefix}${group}`);
+}
+
+function getDateParts(date: string, userTimezone: string): { [name: string]: string } {
+    const dateTime = DateTime.fromISO(date).setZone(userTimezone);
+    if (!dateTime.isValid) {
+        return {};
+    }
+    return {
+        date: dateTime.toFormat('yyyy-MM-dd'),
+        year: dateTime.toFormat('yyyy'),
+        month: dateTime.toFormat('MM'),
+        monthName: dateTime.toFormat('LLLL'),
+        day: dateTime.toFormat('dd'),
+        weekday: dateTime.toFormat('cccc'),
+        week: dateTime.toFormat('WW'),
+        weekYear: dateTime.toFormat('kkkk'),
+        isoWeek: dateTime.toFormat("kkkk-'W'WW")
+    };
+}
+
+// Keep titles on one line, free of characters that file systems reject when notes are exported,
+// and short enough to read in the note list
+export function sanitizeTitle(title: string, fallback: string): string {
+    let sanitized = title
+        .replace(/[\x00-\x1f\x7f]+/g, ' ')
+        .replace(/\s*:\s*/g, ' - ')
+        .replace(/[\\/|]/g, '-')
+        .replace(/"/g, "'")
+        .replace(/[*?<>]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+    if (sanitized.length > MAX_TITLE_LENGTH) {
+        const cut = sanitized.slice(0, MAX_TITLE_LENGTH - 1);
+        const lastSpace = cut.lastIndexOf(' ');
+        sanitized = `${(lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+    }
+
+    return sanitized || (fallback ? sanitizeTitle(fallback, '') : 'Untitled');
+}
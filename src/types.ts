@@ -8,11 +8,16 @@ export interface Article extends OmnivoreItem {
     createdAt?: string;
     readingProgressAnchorIndex?: number;
     folder?: string;
+    highlights: ArticleHighlight[] | null;
 }
 
-export interface Highlight extends OmnivoreHighlight {
+// Highlight as returned with its item, with the fields the API returns beyond the package's type
+export interface ArticleHighlight extends OmnivoreHighlight {
     shortId?: string;
     createdAt?: string;
+}
+
+export interface Highlight extends ArticleHighlight {
     article: {
         id: string;
         title: string;
@@ -22,6 +27,9 @@ export interface Highlight extends OmnivoreHighlight {
         author?: string;
         publishedAt?: string;
         slug?: string;
+        siteName?: string;
+        pageType?: string;
+        labels?: string[];
     };
 }
 
@@ -39,6 +47,87 @@ export interface SyncedArticle {
     savedAt: string;
 }
 
+// Sync state of an Omnivore item, and the Joplin note it was written to
+export interface ArticleState {
+    noteId: string | null; // null for articles synced before note IDs were recorded
+    savedAt: string;
+    updatedAt: string | null;
+    hash?: string;
+    bodyHash?: string;
+    title?: string; // note title as written, to detect edits made in Joplin
+    labels: string[];
+    syncedAt: string;
+    omnivoreState?: 'archived' | 'deleted'; // set once the item was reconciled as archived or deleted
+    markedHighlightIds?: string[]; // highlights marked inline in the article note
+    routedTags?: string[]; // tags added by a routing rule, which are not Omnivore labels
+    openTodo?: boolean; // the note was created as a to-do that is completed once the item is fully read
+    localLabelsChangedAt?: string; // when the plugin first saw the note's tags differ from labels, since tag changes don't update a note
+}
+
+// Sync state of a highlight within one highlight group
+export interface HighlightState {
+    noteId?: string;
+    itemId?: string;
+    updatedAt?: string | null;
+    annotation?: string | null; // annotation as written to the note, to detect edits made in Joplin
+    renderedAnnotation?: string | null; // annotation as read back from the rendered highlight (see extractAnnotation)
+    deleted?: boolean; // set once the highlight was deleted in Omnivore and handled in the note
+    quoteHash?: string; // hash of the item ID and the normalized quote, to match imported highlights with synced ones
+    syncedAt: string;
+}
+
+export enum ArticleUpdatePolicy {
+    LocalWins = 'local',
+    OmnivoreWins = 'omnivore'
+}
+
+export enum ImageStrategy {
+    Download = 'download',
+    KeepRemote = 'remote',
+    Placeholder = 'placeholder', // a link to the image instead of the image
+    Skip = 'skip'
+}
+
+export enum ReconcileAction {
+    None = 'none',
+    Tag = 'tag',
+    ArchiveNotebook = 'archiveNotebook',
+    Trash = 'trash'
+}
+
+export enum DeletedHighlightAction {
+    Remove = 'remove',
+    StrikeThrough = 'strikethrough'
+}
+
+// Group keys of byDate and byArticle are the date and the article ID, as in earlier versions.
+// The other modes prefix the key with the mode, so that groups of different modes never share state.
+export enum HighlightGrouping {
+    ByDate = 'byDate',
+    ByWeek = 'byWeek',
+    ByMonth = 'byMonth',
+    ByLabel = 'byLabel',
+    BySite = 'bySite',
+    ByAuthor = 'byAuthor',
+    ByArticle = 'byArticle',
+    DailyNote = 'dailyNote' // grouped by date like byDate, but written to the daily notes
+}
+
+export enum RoutingField {
+    Label = 'label',
+    Site = 'site',
+    PageType = 'pageType',
+    Author = 'author'
+}
+
+// A routing rule sends the notes of matching items to a notebook and adds tags to them. Rules are checked in order.
+export interface RoutingRule {
+    field: RoutingField;
+    value: string;
+    notebook?: string; // notebook path such as "Work/Reading"
+    tags?: string[];
+}
+
 export interface SyncedHighlight {
     id: string;
     createdAt: string;
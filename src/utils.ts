@@ -0,0 +1,34 @@
+// utils.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+// 32-bit FNV-1a, used for stable IDs and to detect changed content. Not for security.
+export function hashString(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return ('0000000' + (hash >>> 0).toString(16)).slice(-8);
+}
+
+// Link to an item in the Omnivore web app
+export function getOmnivoreUrl(omnivoreWebUrl: string, slugOrId: string): string {
+    return `${omnivoreWebUrl.trim().replace(/\/+$/, '')}/me/${slugOrId}`;
+}
+
+// Host name of a URL without "www.", or "Unknown" if the URL can't be parsed
+export function getHostName(url: string | null | undefined): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '') || 'Unknown';
+    } catch (error) {
+        return 'Unknown';
+    }
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
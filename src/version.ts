@@ -0,0 +1,28 @@
+// version.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+
+// Joplin 3.0 added the trash, and with it the deleted_time field of notes
+const TRASH_MIN_VERSION = 3;
+
+let trashSupported: boolean | null = null;
+
+// Whether deleted notes go to the trash. Before Joplin 3.0 they are deleted for good, and reading
+// deleted_time fails.
+export async function hasTrash(): Promise<boolean> {
+    if (trashSupported === null) {
+        try {
+            const { version } = await joplin.versionInfo();
+            trashSupported = parseInt(version, 10) >= TRASH_MIN_VERSION;
+        } catch (error) {
+            trashSupported = false;
+        }
+    }
+    return trashSupported;
+}
+
+// Note fields to read, with deleted_time where Joplin has it, so that notes in the trash can be skipped
+export async function withDeletedTime(fields: string[]): Promise<string[]> {
+    return await hasTrash() ? [...fields, 'deleted_time'] : fields;
+}
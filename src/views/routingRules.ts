@@ -0,0 +1,71 @@
+// views/routingRules.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { parseRoutingRules } from '../sync/routing';
+import { logger } from '../logger';
+import { escapeHtml } from '../utils';
+
+const DIALOG_ID = 'omnivoreRoutingRulesDialog';
+
+const EXAMPLE = `[
+  { "field": "label", "value": "work", "notebook": "Work/Reading", "tags": ["work"] },
+  { "field": "site", "value": "example.com", "notebook": "Personal/Reading" },
+  { "field": "pageType", "value": "BOOK", "tags": ["book"] }
+]`;
+
+let dialogHandle: string | null = null;
+
+// Show the routing rules in a dialog until they are saved valid or the dialog is cancelled
+export async function editRoutingRules() {
+    if (!dialogHandle) {
+        dialogHandle = await joplin.views.dialogs.create(DIALOG_ID);
+        await joplin.views.dialogs.setButtons(dialogHandle, [
+            { id: 'ok', title: 'Save' },
+            { id: 'cancel', title: 'Cancel' }
+        ]);
+    }
+
+    let json = formatRules(await joplin.settings.value('routingRules'));
+    let error = '';
+    while (true) {
+        await joplin.views.dialogs.setHtml(dialogHandle, buildHtml(json, error));
+        const result = await joplin.views.dialogs.open(dialogHandle);
+        if (result.id !== 'ok') {
+            return;
+        }
+
+        json = result.formData?.routingRules?.rules ?? json;
+        try {
+            const rules = parseRoutingRules(json);
+            await joplin.settings.setValue('routingRules', JSON.stringify(rules));
+            await logger.info(`Saved ${rules.length} routing rules`);
+            return;
+        } catch (parseError) {
+            error = parseError.message;
+        }
+    }
+}
+
+// Pretty-print the stored rules, or show them as they are if they can't be parsed
+function formatRules(json: string): string {
+    try {
+        return JSON.stringify(JSON.parse(json || '[]'), null, 2);
+    } catch (error) {
+        return json;
+    }
+}
+
+function buildHtml(json: string, error: string): string {
+    return `
+        <form name="routingRules" style="min-width: 560px">
+            <h3>Omnivore Routing Rules</h3>
+            <p>Rules are checked in order, and the first one that matches an item decides where its notes go.
+            "field" is one of label, site, pageType or author; "notebook" is a notebook path and "tags" are added to the notes.</p>
+            ${error ? `<p style="color: #c62828; white-space: pre-wrap">${escapeHtml(error)}</p>` : ''}
+            <textarea name="rules" rows="16" style="width: 100%; font-family: monospace">${escapeHtml(json)}</textarea>
+            <p>Example:</p>
+            <pre style="font-size: 0.9em">${escapeHtml(EXAMPLE)}</pre>
+        </form>
+    `;
+}
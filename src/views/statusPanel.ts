@@ -0,0 +1,135 @@
+// views/statusPanel.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import joplin from 'api';
+import { SyncRun, syncStatus } from '../sync/status';
+import { escapeHtml } from '../utils';
+
+const PANEL_ID = 'omnivoreSyncStatusPanel';
+// Progress can change many times a second, so the panel is redrawn at most this often
+const RENDER_DELAY_MS = 300;
+
+let panelHandle: string | null = null;
+let renderTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Show the panel, creating it on first use, or hide it if it is shown
+export async function toggleStatusPanel() {
+    if (!panelHandle) {
+        panelHandle = await joplin.views.panels.create(PANEL_ID);
+        await joplin.views.panels.addScript(panelHandle, './views/statusPanel.css');
+        await joplin.views.panels.addScript(panelHandle, './views/statusPanelWebview.js');
+        await joplin.views.panels.onMessage(panelHandle, handleMessage);
+        syncStatus.onChange(scheduleRender);
+        await render();
+        return;
+    }
+    await joplin.views.panels.show(panelHandle, !(await joplin.views.panels.visible(panelHandle)));
+}
+
+async function handleMessage(message: { name: string, noteId?: string }) {
+    switch (message.name) {
+        case 'sync':
+            await joplin.commands.execute('syncOmnivoreArticles');
+            break;
+        case 'cancel':
+            syncStatus.requestCancel();
+            break;
+        case 'openNote':
+            if (message.noteId) {
+                await joplin.commands.execute('openNote', message.noteId);
+            }
+            break;
+    }
+}
+
+function scheduleRender() {
+    if (renderTimer) {
+        return;
+    }
+    renderTimer = setTimeout(async () => {
+        renderTimer = null;
+        await render();
+    }, RENDER_DELAY_MS);
+}
+
+async function render() {
+    if (panelHandle) {
+        await joplin.views.panels.setHtml(panelHandle, buildHtml());
+    }
+}
+
+function buildHtml(): string {
+    const current = syncStatus.current;
+    const runs = syncStatus.runs;
+    // Errors of the running sync, or of the last run once it finished
+    const errorRun = current || runs[0];
+
+    return `
+        <div class="omnivore-status">
+            <div class="toolbar">
+                <button data-action="sync" ${current ? 'disabled' : ''}>Sync now</button>
+                <button data-action="cancel" ${current ? '' : 'disabled'}>Cancel</button>
+            </div>
+            <h3>Current sync</h3>
+            ${current ? buildProgress(current) : '<p class="muted">Not syncing.</p>'}
+            <h3>Errors${errorRun && !current ? ' in the last run' : ''}</h3>
+            ${errorRun && (errorRun.errors.length > 0 || errorRun.error) ? buildErrors(errorRun) : '<p class="muted">None.</p>'}
+            <h3>Last runs</h3>
+            ${runs.length > 0 ? buildHistory(runs) : '<p class="muted">No sync has run yet.</p>'}
+        </div>
+    `;
+}
+
+function buildProgress(run: SyncRun): string {
+    return `
+        <p><strong>${run.preview ? 'Preview: ' : ''}${escapeHtml(run.phase)}</strong> <span class="muted">since ${formatTime(run.startedAt)}</span></p>
+        <table>
+            <tr><th></th><th>Fetched</th><th>Written</th></tr>
+            <tr><td>Articles</td><td>${run.articles.fetched}</td><td>${run.articles.written}</td></tr>
+            <tr><td>Highlights</td><td>${run.highlights.fetched}</td><td>${run.highlights.written}</td></tr>
+        </table>
+    `;
+}
+
+function buildErrors(run: SyncRun): string {
+    const stopped = run.error ? `<p class="error">The sync stopped: ${escapeHtml(run.error)}</p>` : '';
+    const items = run.errors.map(error => `
+        <li>
+            <span class="error">${error.kind === 'article' ? 'Article' : 'Highlights'} "${escapeHtml(error.title)}"</span>: ${escapeHtml(error.message)}
+            ${error.noteId ? `<button data-action="openNote" data-note-id="${escapeHtml(error.noteId)}">Open note</button>` : ''}
+        </li>
+    `).join('');
+    return `${stopped}${items ? `<ul>${items}</ul>` : ''}`;
+}
+
+function buildHistory(runs: SyncRun[]): string {
+    const rows = runs.map(run => `
+        <tr>
+            <td>${formatTime(run.startedAt)}</td>
+            <td class="status-${run.status}">${run.status}${run.preview ? ' (preview)' : ''}</td>
+            <td>${run.articles.written}/${run.articles.fetched}</td>
+            <td>${run.highlights.written}/${run.highlights.fetched}</td>
+            <td>${run.errors.length}</td>
+            <td>${formatDuration(run)}</td>
+        </tr>
+    `).join('');
+    return `
+        <table>
+            <tr><th>Started</th><th>Status</th><th>Articles</th><th>Highlights</th><th>Errors</th><th>Duration</th></tr>
+            ${rows}
+        </table>
+        <p class="muted">Articles and highlights are shown as written/fetched.</p>
+    `;
+}
+
+function formatTime(date: string): string {
+    return new Date(date).toLocaleString();
+}
+
+function formatDuration(run: SyncRun): string {
+    if (!run.finishedAt) {
+        return '';
+    }
+    const seconds = Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
@@ -0,0 +1,15 @@
+// views/statusPanelWebview.js
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+// Runs in the status panel webview. The panel HTML is replaced on every update, so clicks are
+// handled on the document instead of on the buttons themselves.
+document.addEventListener('click', (event) => {
+    const button = event.target.closest('button[data-action]');
+    if (!button || button.disabled) {
+        return;
+    }
+    webviewApi.postMessage({
+        name: button.getAttribute('data-action'),
+        noteId: button.getAttribute('data-note-id') || undefined
+    });
+});
@@ -0,0 +1,79 @@
+// tests/annotations.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { Highlight, HighlightState } from '../src/types';
+import { getEditedAnnotation } from '../src/sync/annotations';
+import { renderHighlightContent } from '../src/sync/highlight';
+import { extractAnnotation } from '../src/sync/markers';
+import { createTurndownService } from '../src/sync/conversion';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+const DEFAULT_TEMPLATE = '{{{quote}}}\n{{#annotation}}\n> **Note**:\n{{{annotation}}}\n{{/annotation}}\n> ({{{createdAt}}})';
+// A custom template that shows the annotation outside the quote, which can't be read back
+const PLAIN_NOTE_TEMPLATE = '{{{quote}}}\n\n**Note**:\n{{annotationText}}';
+
+function createHighlight(annotation: string | null): Highlight {
+    return {
+        id: 'highlight-1',
+        type: 'HIGHLIGHT',
+        quote: 'The quoted text',
+        annotation,
+        createdAt: '2024-03-01T10:00:00.000Z',
+        updatedAt: '2024-03-01T10:00:00.000Z',
+        article: { id: 'item-1', title: 'An Article', url: 'https://example.com/a', savedAt: '2024-03-01T09:00:00.000Z' }
+    } as Highlight;
+}
+
+function render(highlight: Highlight, template: string): string {
+    return renderHighlightContent(highlight, template, 'UTC', createTurndownService(), 'https://omnivore.app');
+}
+
+// The state recorded when the highlight was written to the note
+function createRecord(annotation: string | null, rendered: string): HighlightState {
+    return { noteId: 'note-1', itemId: 'item-1', annotation, renderedAnnotation: extractAnnotation(rendered), syncedAt: '2024-03-01T10:00:00.000Z' };
+}
+
+describe('getEditedAnnotation', () => {
+    test('returns null for an annotation that was not edited', () => {
+        const rendered = render(createHighlight('My thoughts'), DEFAULT_TEMPLATE);
+        expect(getEditedAnnotation(rendered, createRecord('My thoughts', rendered))).toBeNull();
+    });
+
+    test('returns an annotation edited in the note', () => {
+        const rendered = render(createHighlight('My thoughts'), DEFAULT_TEMPLATE);
+        const edited = rendered.replace('> My thoughts', '> My new thoughts\n> on two lines');
+        expect(getEditedAnnotation(edited, createRecord('My thoughts', rendered))).toBe('My new thoughts\non two lines');
+    });
+
+    test('does not push an annotation rendered by a template it cannot read back', () => {
+        const rendered = render(createHighlight('My thoughts'), PLAIN_NOTE_TEMPLATE);
+        expect(extractAnnotation(rendered)).toBe('');
+        expect(getEditedAnnotation(rendered, createRecord('My thoughts', rendered))).toBeNull();
+    });
+
+    test('does not push an empty annotation for highlights written before rendered annotations were recorded', () => {
+        const rendered = render(createHighlight('My thoughts'), PLAIN_NOTE_TEMPLATE);
+        const record = { noteId: 'note-1', itemId: 'item-1', annotation: 'My thoughts', syncedAt: '2024-03-01T10:00:00.000Z' };
+        expect(getEditedAnnotation(rendered, record)).toBeNull();
+        expect(getEditedAnnotation('> **Note**:\n>\n> (2024-03-01 10:00)', record)).toBeNull();
+    });
+
+    test('does not push an annotation with entities back decoded', () => {
+        const rendered = render(createHighlight('Use &amp;lt;b&amp;gt; for bold'), DEFAULT_TEMPLATE);
+        expect(rendered).toContain('> Use &lt;b&gt; for bold');
+        expect(getEditedAnnotation(rendered, createRecord('Use &lt;b&gt; for bold', rendered))).toBeNull();
+    });
+});
+
+describe('renderHighlightContent', () => {
+    test('decodes entities once', () => {
+        const rendered = render(createHighlight('A &amp;amp; B'), DEFAULT_TEMPLATE);
+        expect(rendered).toContain('> A &amp; B');
+    });
+
+    test('does not escape values inserted with double braces', () => {
+        const rendered = render(createHighlight('x < y & "z"'), PLAIN_NOTE_TEMPLATE);
+        expect(rendered).toContain('x < y & "z"');
+    });
+});
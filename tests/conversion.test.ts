@@ -0,0 +1,27 @@
+// tests/conversion.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createTurndownService } from '../src/sync/conversion';
+
+// The conversion doesn't use the Joplin API, which only exists inside Joplin
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'conversion');
+
+// Each fixture is article HTML as saved by Omnivore (<name>.html) with the Markdown it converts to (<name>.md)
+const FIXTURES = ['tables', 'strikethrough', 'code-language', 'figure', 'footnotes', 'math', 'tweet', 'youtube'];
+
+function readFixture(fileName: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, fileName), 'utf8');
+}
+
+describe('createTurndownService', () => {
+    const turndownService = createTurndownService();
+
+    test.each(FIXTURES)('converts %s', name => {
+        const markdown = turndownService.turndown(readFixture(`${name}.html`));
+        expect(markdown).toBe(readFixture(`${name}.md`).trim());
+    });
+});
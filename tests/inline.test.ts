@@ -0,0 +1,49 @@
+// tests/inline.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { markHighlights } from '../src/sync/inline';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+function highlight(id: string, quote: string, fields: { annotation?: string, highlightPositionPercent?: number, patch?: string } = {}) {
+    return { id, shortId: id, quote, annotation: null, patch: '', highlightPositionPercent: 0, ...fields };
+}
+
+describe('markHighlights', () => {
+    test('wraps the quote in marks', () => {
+        const result = markHighlights('The quick brown fox jumps.', [highlight('a', 'quick brown')]);
+        expect(result).toEqual({ markdown: 'The ==quick brown== fox jumps.', markedIds: ['a'] });
+    });
+
+    test('adds the annotation as a footnote', () => {
+        const result = markHighlights('The quick brown fox jumps.\n', [highlight('a', 'brown fox', { annotation: 'A note &amp; more\nOn two lines' })]);
+        expect(result.markdown).toBe('The quick ==brown fox==[^omnivore-a] jumps.\n\n[^omnivore-a]: A note & more\n    On two lines\n');
+    });
+
+    test('finds quotes across emphasis, escapes and paragraphs, marking each line', () => {
+        const markdown = 'It uses snake\\_case and *is* cheap.\n\n- Next item here';
+        const result = markHighlights(markdown, [highlight('a', 'uses snake_case and is cheap. Next item')]);
+        expect(result.markdown).toBe('It ==uses snake\\_case and *is* cheap.==\n\n- ==Next item== here');
+    });
+
+    test('keeps links whole', () => {
+        const result = markHighlights('Read [the full story](https://example.com) today.', [highlight('a', 'Read the full')]);
+        expect(result.markdown).toBe('==Read [the full story](https://example.com)== today.');
+    });
+
+    test('picks the occurrence closest to the position of the highlight', () => {
+        const markdown = `Same words. ${'Filler text. '.repeat(20)}Same words.`;
+        const result = markHighlights(markdown, [highlight('a', 'Same words', { highlightPositionPercent: 95 })]);
+        expect(result.markdown).toBe(`Same words. ${'Filler text. '.repeat(20)}==Same words==.`);
+    });
+
+    test('does not mark text that is already marked', () => {
+        const result = markHighlights('The ==quick brown== fox.', [highlight('a', 'quick brown')]);
+        expect(result).toEqual({ markdown: 'The ==quick brown== fox.', markedIds: [] });
+    });
+
+    test('leaves highlights whose quote is not found out of markedIds', () => {
+        const result = markHighlights('The quick brown fox.', [highlight('a', 'lazy dog'), highlight('b', 'fox')]);
+        expect(result).toEqual({ markdown: 'The quick brown ==fox==.', markedIds: ['b'] });
+    });
+});
@@ -0,0 +1,57 @@
+// tests/markers.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { extractAnnotation, findHighlightBlocks, highlightStartMarker, wrapHighlight } from '../src/sync/markers';
+
+describe('findHighlightBlocks', () => {
+    test('finds blocks between their markers', () => {
+        const first = wrapHighlight('a', '> First quote');
+        const second = wrapHighlight('b', '> Second quote');
+        const body = `Intro\n\n${first}\n\n---\n\n${second}\n`;
+
+        expect(findHighlightBlocks(body)).toEqual([
+            { id: 'a', start: body.indexOf(first), end: body.indexOf(first) + first.length, text: '\n> First quote\n' },
+            { id: 'b', start: body.indexOf(second), end: body.indexOf(second) + second.length, text: '\n> Second quote\n' }
+        ]);
+    });
+
+    test('ends blocks written without an end marker at the next separator or start marker', () => {
+        const body = `${highlightStartMarker('a')}\n> First\n---\n${highlightStartMarker('b')}\n> Second\n${highlightStartMarker('c')}\n> Third`;
+        const blocks = findHighlightBlocks(body);
+
+        expect(blocks.map(block => block.text)).toEqual(['\n> First', '\n> Second\n', '\n> Third']);
+        expect(blocks[2].end).toBe(body.length);
+    });
+
+    test('ignores an end marker of another block', () => {
+        const body = `${highlightStartMarker('a')}\n> First\n${wrapHighlight('b', '> Second')}`;
+        expect(findHighlightBlocks(body)[0].text).toBe('\n> First\n');
+    });
+
+    test('finds nothing in a note without markers', () => {
+        expect(findHighlightBlocks('Just a note\n---\nwith a separator')).toEqual([]);
+    });
+});
+
+describe('extractAnnotation', () => {
+    test('reads the quoted lines below the Note line, up to the creation time', () => {
+        const block = '> The quote\n> **Note**:\n> First line\n>\n> Second line\n> (2024-03-01 10:00)\n\n**Author**: Jane';
+        expect(extractAnnotation(block)).toBe('First line\n\nSecond line');
+    });
+
+    test('ends the annotation at the first line outside the quote', () => {
+        expect(extractAnnotation('> **Note**:\n> The annotation\nNot part of it')).toBe('The annotation');
+    });
+
+    test('reads a Note line outside a quote', () => {
+        expect(extractAnnotation('**Note**:\n> The annotation')).toBe('The annotation');
+    });
+
+    test('reads an annotation that is not quoted as empty', () => {
+        expect(extractAnnotation('> The quote\n\n**Note**:\nThe annotation')).toBe('');
+    });
+
+    test('returns null without a Note line', () => {
+        expect(extractAnnotation('> The quote\n> (2024-03-01 10:00)')).toBeNull();
+    });
+});
@@ -0,0 +1,69 @@
+// tests/query.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { buildLabelClauses, buildSearchQuery, validateUserQuery } from '../src/api/query';
+
+const RESERVED_KEYS = ['sort', 'updated'];
+const PLUGIN_CLAUSES = 'sort:updated-asc updated:2024-03-01T00:00:00.000Z..*';
+
+describe('buildLabelClauses', () => {
+    test('joins included labels with OR and excludes labels starting with "-"', () => {
+        expect(buildLabelClauses(['news', 'Tech Talk', '-spam', '-newsletter'])).toBe('(label:"news" OR label:"Tech Talk") -label:"spam" -label:"newsletter"');
+    });
+
+    test('excludes labels without including any', () => {
+        expect(buildLabelClauses(['-spam'])).toBe('-label:"spam"');
+    });
+
+    test('ignores a lone "-" and escapes quotes', () => {
+        expect(buildLabelClauses(['-', 'say "hi"'])).toBe('(label:"say \\"hi\\"")');
+    });
+
+    test('is empty without labels', () => {
+        expect(buildLabelClauses([])).toBe('');
+    });
+});
+
+describe('buildSearchQuery', () => {
+    test('puts the plugin clauses first and the user query in parentheses', () => {
+        expect(buildSearchQuery(PLUGIN_CLAUSES, ['news'], 'in:library OR is:read', RESERVED_KEYS)).toEqual({
+            query: `${PLUGIN_CLAUSES} (label:"news") (in:library OR is:read)`,
+            dropped: []
+        });
+    });
+
+    test('leaves out an empty user query', () => {
+        expect(buildSearchQuery(PLUGIN_CLAUSES, [], '  ', RESERVED_KEYS).query).toBe(PLUGIN_CLAUSES);
+    });
+
+    test('drops the reserved keys from the user query, also when negated', () => {
+        expect(buildSearchQuery(PLUGIN_CLAUSES, [], 'in:library SORT:saved-desc -updated:2024-01-01', RESERVED_KEYS)).toEqual({
+            query: `${PLUGIN_CLAUSES} (in:library)`,
+            dropped: ['SORT:saved-desc', '-updated:2024-01-01']
+        });
+    });
+
+    test('tidies the operators and parentheses that dropped clauses leave behind', () => {
+        expect(buildSearchQuery('', [], 'is:read AND (sort:saved OR updated:2024) OR type:article', RESERVED_KEYS).query).toBe('(is:read AND type:article)');
+        expect(buildSearchQuery('', [], 'sort:saved OR label:a', RESERVED_KEYS).query).toBe('(label:a)');
+        expect(buildSearchQuery('', [], '(sort:saved)', RESERVED_KEYS).query).toBe('');
+    });
+
+    test('keeps quoted values together', () => {
+        expect(buildSearchQuery('', [], 'title:"sort: a (b)" -label:"x y"', RESERVED_KEYS).query).toBe('(title:"sort: a (b)" -label:"x y")');
+    });
+});
+
+describe('validateUserQuery', () => {
+    test('accepts balanced queries', () => {
+        expect(() => validateUserQuery('(in:library OR is:read) title:"a (b"')).not.toThrow();
+    });
+
+    test.each([
+        ['(in:library', 'without a matching ")"'],
+        ['in:library)', 'without a matching "("'],
+        ['title:"unclosed', 'unclosed quote']
+    ])('rejects %s', (query, message) => {
+        expect(() => validateUserQuery(query)).toThrow(message);
+    });
+});
@@ -0,0 +1,97 @@
+// tests/retry.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { setTimeout } from 'timers/promises';
+import { HttpError, parseRetryAfter, withRetry } from '../src/api/retry';
+
+jest.mock('api', () => ({ __esModule: true, default: { settings: { value: async () => 'error' } } }), { virtual: true });
+jest.mock('timers/promises', () => ({ setTimeout: jest.fn(async () => undefined) }));
+
+const wait = setTimeout as unknown as jest.Mock;
+
+// A request that fails with the given errors, one per attempt, then returns "done"
+function failingRequest(...errors: Error[]): jest.Mock {
+    const request = jest.fn(async () => 'done');
+    for (const error of errors) {
+        request.mockImplementationOnce(async () => { throw error; });
+    }
+    return request;
+}
+
+function fetchError(): Error {
+    const error = new Error('socket hang up');
+    error.name = 'FetchError';
+    return error;
+}
+
+describe('parseRetryAfter', () => {
+    test('reads a number of seconds', () => {
+        expect(parseRetryAfter('120')).toBe(120 * 1000);
+    });
+
+    test('reads an HTTP date', () => {
+        const date = new Date(Date.now() + 60 * 1000).toUTCString();
+        const delay = parseRetryAfter(date);
+        expect(delay).toBeGreaterThan(58 * 1000);
+        expect(delay).toBeLessThanOrEqual(60 * 1000);
+    });
+
+    test('does not wait for a date in the past', () => {
+        expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:00 GMT')).toBe(0);
+    });
+
+    test('returns null for a missing or invalid value', () => {
+        expect(parseRetryAfter(null)).toBeNull();
+        expect(parseRetryAfter('soon')).toBeNull();
+    });
+});
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        wait.mockClear();
+    });
+
+    test('retries server errors and connection errors with growing delays', async () => {
+        const request = failingRequest(new HttpError(503, null), fetchError());
+        await expect(withRetry('Request', request)).resolves.toBe('done');
+
+        expect(request).toHaveBeenCalledTimes(3);
+        const [first, second] = wait.mock.calls.map(call => call[0]);
+        expect(first).toBeGreaterThanOrEqual(2000);
+        expect(first).toBeLessThan(3000);
+        expect(second).toBeGreaterThanOrEqual(4000);
+        expect(second).toBeLessThan(5000);
+    });
+
+    test('waits as long as Retry-After says', async () => {
+        await withRetry('Request', failingRequest(new HttpError(429, 45 * 1000)));
+        expect(wait).toHaveBeenCalledWith(45 * 1000);
+    });
+
+    test('waits out a rate limit without Retry-After for at least 30 seconds', async () => {
+        await withRetry('Request', failingRequest(new HttpError(429, null)));
+        expect(wait.mock.calls[0][0]).toBeGreaterThanOrEqual(30 * 1000);
+    });
+
+    test('does not retry client errors or other errors', async () => {
+        for (const error of [new HttpError(404, null), new Error('Invalid response')]) {
+            const request = failingRequest(error);
+            await expect(withRetry('Request', request)).rejects.toBe(error);
+            expect(request).toHaveBeenCalledTimes(1);
+        }
+        expect(wait).not.toHaveBeenCalled();
+    });
+
+    test('fails instead of waiting longer than 10 minutes', async () => {
+        const error = new HttpError(503, 11 * 60 * 1000);
+        await expect(withRetry('Request', failingRequest(error))).rejects.toBe(error);
+        expect(wait).not.toHaveBeenCalled();
+    });
+
+    test('gives up after 5 attempts', async () => {
+        const errors = Array.from({ length: 5 }, () => new HttpError(500, null));
+        const request = failingRequest(...errors);
+        await expect(withRetry('Request', request)).rejects.toBe(errors[4]);
+        expect(request).toHaveBeenCalledTimes(5);
+    });
+});
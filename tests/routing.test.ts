@@ -0,0 +1,70 @@
+// tests/routing.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { Article, RoutingField, RoutingRule } from '../src/types';
+import { articleToRoutable, findRoutingRule, parseRoutingRules } from '../src/sync/routing';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+const article = {
+    id: 'item-1',
+    title: 'An Article',
+    url: 'https://omnivore.app/item-1',
+    originalArticleUrl: 'https://blog.example.com/post',
+    author: 'Jane Doe and John Roe',
+    pageType: 'ARTICLE',
+    labels: [{ id: 'label-1', name: 'Work', color: '#ff0000' }]
+} as unknown as Article;
+
+function rule(field: RoutingField, value: string): RoutingRule {
+    return { field, value, notebook: `Routed/${field}` };
+}
+
+describe('parseRoutingRules', () => {
+    test('reads rules and trims their values', () => {
+        const json = '[{ "field": "label", "value": " work ", "notebook": " Work/Reading ", "tags": [" work ", ""] }]';
+        expect(parseRoutingRules(json)).toEqual([{ field: 'label', value: 'work', notebook: 'Work/Reading', tags: ['work'] }]);
+    });
+
+    test('reads an empty setting as no rules', () => {
+        expect(parseRoutingRules('  ')).toEqual([]);
+    });
+
+    test('rejects invalid JSON', () => {
+        expect(() => parseRoutingRules('[{')).toThrow('not valid JSON');
+        expect(() => parseRoutingRules('{}')).toThrow('must be a JSON array');
+    });
+
+    test('lists the problems of each rule', () => {
+        const json = '[{ "field": "colour", "value": "red", "tags": ["a"] }, { "field": "site", "value": "" }]';
+        expect(() => parseRoutingRules(json)).toThrow(/Rule 1: "field" must be one of[\s\S]*Rule 2: "value" must be a non-empty string[\s\S]*Rule 2 sets neither/);
+    });
+});
+
+describe('findRoutingRule', () => {
+    const item = articleToRoutable(article);
+
+    test('matches labels and page types regardless of case', () => {
+        expect(findRoutingRule([rule(RoutingField.Label, 'work')], item)).not.toBeNull();
+        expect(findRoutingRule([rule(RoutingField.PageType, 'article')], item)).not.toBeNull();
+    });
+
+    test('matches a site and its subdomains by the original URL', () => {
+        expect(findRoutingRule([rule(RoutingField.Site, 'www.example.com')], item)).not.toBeNull();
+        expect(findRoutingRule([rule(RoutingField.Site, 'ample.com')], item)).toBeNull();
+        expect(findRoutingRule([rule(RoutingField.Site, 'omnivore.app')], item)).toBeNull();
+    });
+
+    test('matches part of the author name', () => {
+        expect(findRoutingRule([rule(RoutingField.Author, 'john roe')], item)).not.toBeNull();
+    });
+
+    test('returns the first matching rule', () => {
+        const rules = [rule(RoutingField.Label, 'personal'), rule(RoutingField.Author, 'jane'), rule(RoutingField.Label, 'work')];
+        expect(findRoutingRule(rules, item)).toBe(rules[1]);
+    });
+
+    test('returns null if no rule matches', () => {
+        expect(findRoutingRule([rule(RoutingField.Label, 'personal')], item)).toBeNull();
+    });
+});
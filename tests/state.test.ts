@@ -0,0 +1,63 @@
+// tests/state.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { syncState } from '../src/sync/state';
+
+const mockDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'omnivore-sync-state-'));
+
+jest.mock('api', () => ({
+    __esModule: true,
+    default: {
+        require: (name: string) => require(name),
+        plugins: { dataDir: async () => mockDataDir },
+        settings: { value: async () => 'error' }
+    }
+}), { virtual: true });
+
+const STATE_FILE = path.join(mockDataDir, 'sync-state.json');
+
+function getBackups(): string[] {
+    return fs.readdirSync(mockDataDir).filter(name => name.endsWith('.bak'));
+}
+
+describe('syncState.load', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    beforeEach(() => {
+        for (const name of fs.readdirSync(mockDataDir)) {
+            fs.unlinkSync(path.join(mockDataDir, name));
+        }
+        consoleError.mockClear();
+    });
+
+    afterAll(() => {
+        fs.rmSync(mockDataDir, { recursive: true, force: true });
+        consoleError.mockRestore();
+    });
+
+    test('loads a state file', async () => {
+        fs.writeFileSync(STATE_FILE, JSON.stringify({ version: 1, lastSyncDate: '2024-03-01T00:00:00.000Z', articles: {}, highlights: {} }));
+        await syncState.load();
+        expect(syncState.lastSyncDate).toBe('2024-03-01T00:00:00.000Z');
+        expect(getBackups()).toEqual([]);
+    });
+
+    test.each([
+        ['a corrupt state file', '{"version": 1, "articles": {'],
+        ['a state file of a newer plugin version', JSON.stringify({ version: 99, lastSyncDate: '2024-03-01T00:00:00.000Z' })]
+    ])('starts over with an empty state from %s and keeps a backup', async (description, content) => {
+        fs.writeFileSync(STATE_FILE, content);
+        await syncState.load();
+
+        expect(syncState.lastSyncDate).toBe('');
+        expect(syncState.getArticles()).toEqual({});
+        expect(consoleError).toHaveBeenCalled();
+        const backups = getBackups();
+        expect(backups).toHaveLength(1);
+        expect(fs.readFileSync(path.join(mockDataDir, backups[0]), 'utf8')).toBe(content);
+        expect(JSON.parse(fs.readFileSync(STATE_FILE, 'utf8')).version).toBe(1);
+    });
+});
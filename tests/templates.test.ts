@@ -0,0 +1,49 @@
+// tests/templates.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { TemplateError, renderTemplate, validateTemplate } from '../src/sync/templates';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+describe('validateTemplate', () => {
+    test('accepts a template with known variables and sections', () => {
+        const template = '{{{quote}}}\n{{#annotation}}> **Note**:\n{{{annotation}}}{{/annotation}}\n{{#labels}}#{{name}} {{/labels}}{{article.title}}';
+        expect(validateTemplate(template, 'highlight')).toEqual([]);
+    });
+
+    test('accepts the variables of list items only inside their section', () => {
+        expect(validateTemplate('{{#highlights}}{{{quote}}} {{createdAt}}{{/highlights}}', 'article')).toEqual([]);
+        expect(validateTemplate('{{createdAt}}', 'article')).toEqual(['Unknown variable "createdAt".']);
+    });
+
+    test('lists each unknown variable once', () => {
+        expect(validateTemplate('{{quote}} {{qoute}} {{{qoute}}} {{#tags}}{{/tags}}', 'highlight')).toEqual(['Unknown variable "qoute".', 'Unknown variable "tags".']);
+    });
+
+    test('reports syntax errors', () => {
+        const errors = validateTemplate('{{#annotation}}{{{annotation}}}', 'highlight');
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toMatch(/^Syntax error: Unclosed section "annotation"/);
+    });
+
+    test('rejects an empty template', () => {
+        expect(validateTemplate('  \n', 'articleTitle')).toEqual(['The template is empty.']);
+    });
+
+    test('checks title templates against their own variables', () => {
+        expect(validateTemplate('{{{isoWeek}}} {{{group}}}', 'highlightTitle')).toEqual([]);
+        expect(validateTemplate('{{{group}}}', 'articleTitle')).toEqual(['Unknown variable "group".']);
+    });
+});
+
+describe('renderTemplate', () => {
+    test('escapes HTML in double braces unless told not to', () => {
+        expect(renderTemplate('{{a}} {{{a}}}', { a: '<b>' }, 'test')).toBe('&lt;b&gt; <b>');
+        expect(renderTemplate('{{a}} {{{a}}}', { a: '<b>' }, 'test', false)).toBe('<b> <b>');
+    });
+
+    test('turns Mustache errors into a TemplateError', () => {
+        expect(() => renderTemplate('{{#a}}', {}, 'test')).toThrow(TemplateError);
+        expect(() => renderTemplate('{{#a}}', {}, 'test')).toThrow('The test template could not be rendered');
+    });
+});
@@ -0,0 +1,65 @@
+// tests/titles.test.ts
+// Oct 2026 by Rino, eMotionGraphics Inc.
+
+import { Article, Highlight } from '../src/types';
+import { DEFAULT_ARTICLE_TITLE_TEMPLATE, DEFAULT_HIGHLIGHT_TITLE_TEMPLATE, renderArticleTitle, renderHighlightNoteTitle, sanitizeTitle } from '../src/sync/titles';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+const TITLE = 'Rust: Why *Everyone* Loves It? <Part 1/2>';
+
+const article = {
+    id: 'item-1',
+    title: TITLE,
+    url: 'https://www.example.com/rust',
+    savedAt: '2024-09-03T10:00:00.000Z',
+    labels: []
+} as unknown as Article;
+
+const highlight = {
+    id: 'highlight-1',
+    createdAt: '2024-09-03T10:00:00.000Z',
+    article: { id: 'item-1', title: TITLE, url: 'https://www.example.com/rust', savedAt: '2024-09-03T10:00:00.000Z' }
+} as Highlight;
+
+describe('renderArticleTitle', () => {
+    test('leaves the title unchanged with the default template', () => {
+        expect(renderArticleTitle(article, DEFAULT_ARTICLE_TITLE_TEMPLATE, 'UTC')).toBe(TITLE);
+    });
+
+    test('sanitizes titles rendered from a custom template', () => {
+        expect(renderArticleTitle(article, '{{{date}}} {{{title}}}', 'UTC')).toBe("2024-09-03 Rust - Why Everyone Loves It Part 1-2");
+    });
+
+    test('uses the host name when the article has no site name', () => {
+        expect(renderArticleTitle(article, '{{{siteName}}}', 'UTC')).toBe('example.com');
+    });
+});
+
+describe('renderHighlightNoteTitle', () => {
+    test('leaves the title unchanged with the default template', () => {
+        expect(renderHighlightNoteTitle(DEFAULT_HIGHLIGHT_TITLE_TEMPLATE, 'Omnivore: ', TITLE, [highlight], 'UTC')).toBe(`Omnivore: ${TITLE}`);
+    });
+
+    test('renders date parts of the earliest highlight', () => {
+        const later = { ...highlight, createdAt: '2024-09-10T10:00:00.000Z' };
+        expect(renderHighlightNoteTitle('{{{isoWeek}}} Reading', '', 'group', [later, highlight], 'UTC')).toBe('2024-W36 Reading');
+    });
+});
+
+describe('sanitizeTitle', () => {
+    test('keeps titles on one line without characters file systems reject', () => {
+        expect(sanitizeTitle('A\nB: "C" | D\\E', '')).toBe("A B - 'C' - D-E");
+    });
+
+    test('shortens long titles at a word boundary', () => {
+        const title = sanitizeTitle('word '.repeat(60), '');
+        expect(title.length).toBeLessThanOrEqual(150);
+        expect(title.endsWith('word…')).toBe(true);
+    });
+
+    test('falls back when nothing is left', () => {
+        expect(sanitizeTitle('***', 'Fallback: title')).toBe('Fallback - title');
+        expect(sanitizeTitle('???', '')).toBe('Untitled');
+    });
+});